@@ -0,0 +1,104 @@
+// src/auth.ts
+import { createHash, timingSafeEqual } from "node:crypto";
+import { IncomingMessage } from "node:http";
+import { AuthSettings } from "./config.js";
+
+// Names of the tools, resources and prompts a client may use; omitted means all
+export interface AccessPolicy {
+  tools?: string[];
+  resources?: string[];
+  prompts?: string[];
+}
+
+export interface Principal {
+  keyId: string;
+  access: AccessPolicy;
+}
+
+export type RateLimitDecision = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+interface ResolvedKey {
+  principal: Principal;
+  digest: Buffer;
+  bucket: TokenBucket;
+}
+
+const digest = (token: string) => createHash("sha256").update(token).digest();
+
+// Refills `capacity` tokens evenly over `periodMs`
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private capacity: number, private periodMs: number) {
+    this.tokens = capacity;
+  }
+
+  take(): RateLimitDecision {
+    const now = Date.now();
+    const refillPerMs = this.capacity / this.periodMs;
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * refillPerMs);
+    this.updatedAt = now;
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return { allowed: true };
+    }
+    return { allowed: false, retryAfterSeconds: Math.ceil((1 - this.tokens) / refillPerMs / 1000) };
+  }
+}
+
+function readToken(req: IncomingMessage): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization) {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+    return match?.[1]?.trim();
+  }
+  const apiKey = req.headers["x-api-key"];
+  return Array.isArray(apiKey) ? apiKey[0] : apiKey;
+}
+
+// Static API keys from config. Tokens are compared by SHA-256 digest in constant time.
+export class ApiKeyAuthenticator {
+  private keys: ResolvedKey[];
+
+  constructor(settings: AuthSettings) {
+    this.keys = settings.keys.map(key => {
+      const limit = key.rateLimit ?? settings.defaultRateLimit;
+      return {
+        principal: {
+          keyId: key.id,
+          access: { tools: key.tools, resources: key.resources, prompts: key.prompts }
+        },
+        digest: digest(key.token ?? ""),
+        bucket: new TokenBucket(limit.requests, limit.perSeconds * 1000)
+      };
+    });
+  }
+
+  authenticate(req: IncomingMessage): Principal | null {
+    const token = readToken(req);
+    if (!token) return null;
+
+    const candidate = digest(token);
+    const match = this.keys.find(key => timingSafeEqual(key.digest, candidate));
+    return match?.principal ?? null;
+  }
+
+  consume(principal: Principal): RateLimitDecision {
+    const key = this.keys.find(k => k.principal.keyId === principal.keyId);
+    return key ? key.bucket.take() : { allowed: true };
+  }
+}
+
+function isAllowed(allowList: string[] | undefined, name: string): boolean {
+  return allowList === undefined || allowList.includes(name);
+}
+
+export type AccessKind = keyof AccessPolicy;
+export type AccessGuard = (kind: AccessKind, name: string) => boolean;
+
+// Checked before each tool, resource and prompt is registered, so a client never sees the others
+export function accessGuard(access: AccessPolicy): AccessGuard {
+  return (kind, name) => isAllowed(access[kind], name);
+}
@@ -0,0 +1,120 @@
+// src/cache.ts
+
+export interface CacheOptions {
+  ttlMs: number;
+  staleMs: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  evictions: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+  expiresAt: number;
+  staleUntil: number;
+}
+
+// TTL cache with stale-while-revalidate. Keys are evicted least-recently-used
+// once maxEntries is reached; concurrent loads of the same key share one request.
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry<unknown>>();
+  private inflight = new Map<string, Promise<unknown>>();
+  private counters = { hits: 0, staleHits: 0, misses: 0, evictions: 0 };
+
+  constructor(private maxEntries: number) {}
+
+  async get<T>(key: string, loader: () => Promise<T>, options: CacheOptions): Promise<T> {
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+    const now = Date.now();
+
+    if (entry) {
+      if (now < entry.expiresAt) {
+        this.counters.hits++;
+        this.touch(key, entry);
+        return entry.value;
+      }
+      if (now < entry.staleUntil) {
+        this.counters.staleHits++;
+        this.touch(key, entry);
+        this.load(key, loader, options).catch(error => {
+          console.error(`Background refresh failed for ${key}:`, error);
+        });
+        return entry.value;
+      }
+    }
+
+    this.counters.misses++;
+    return this.load(key, loader, options);
+  }
+
+  // Loads still in flight are dropped too, so a response fetched before the
+  // refresh is neither handed to later callers nor stored afterwards
+  invalidate(prefix?: string): number {
+    const matches = (key: string) => prefix === undefined || key.startsWith(prefix);
+    for (const key of Array.from(this.inflight.keys())) {
+      if (matches(key)) this.inflight.delete(key);
+    }
+    let count = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (matches(key)) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  stats(): CacheStats {
+    return { entries: this.entries.size, maxEntries: this.maxEntries, ...this.counters };
+  }
+
+  private load<T>(key: string, loader: () => Promise<T>, options: CacheOptions): Promise<T> {
+    const pending = this.inflight.get(key) as Promise<T> | undefined;
+    if (pending) return pending;
+
+    // Only the current load of a key stores its result; invalidate() may have dropped this one
+    const current = () => this.inflight.get(key) === promise;
+    const promise: Promise<T> = loader()
+      .then(value => {
+        if (!current()) return value;
+        const fetchedAt = Date.now();
+        this.set(key, {
+          value,
+          fetchedAt,
+          expiresAt: fetchedAt + options.ttlMs,
+          staleUntil: fetchedAt + options.ttlMs + options.staleMs
+        });
+        return value;
+      })
+      .finally(() => {
+        if (current()) this.inflight.delete(key);
+      });
+
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  private set<T>(key: string, entry: CacheEntry<T>) {
+    if (this.maxEntries <= 0) return;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+      this.counters.evictions++;
+    }
+  }
+
+  private touch<T>(key: string, entry: CacheEntry<T>) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+}
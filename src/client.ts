@@ -0,0 +1,374 @@
+// src/client.ts
+import { ResponseCache } from "./cache.js";
+import { ApiSettings, CacheSettings, Endpoint, HttpSettings, resolveEndpoint } from "./config.js";
+import { eventStatus } from "./events.js";
+import { CircuitBreaker, fetchWithRetry, UpstreamError } from "./http.js";
+import { LocationFilter, locationMatcher } from "./locations.js";
+import { CompanyResolution, resolveCompany } from "./resolver.js";
+import {
+  Company,
+  directoryResponseSchema,
+  Event,
+  eventsResponseSchema,
+  itemResponseSchema,
+  PodcastItem,
+  podcastsResponseSchema,
+  upstreamCompanyFields,
+  upstreamCompanySchema,
+  upstreamEventFields,
+  upstreamEventSchema,
+  upstreamPodcastFields,
+  upstreamPodcastSchema
+} from "./schemas.js";
+import {
+  DriftReport,
+  hasDrift,
+  parseEnvelope,
+  parseItems,
+  SchemaDriftError,
+  summarizeDrift,
+  toSchemaIssues,
+  UpstreamModel
+} from "./validation.js";
+
+export type { Company, Event, EventSocialLinks, PodcastImage, PodcastItem, PromotionSettings, SocialLinks, TeamMember } from "./schemas.js";
+
+export interface ApiResponse {
+  success: boolean;
+  data: Company[];
+}
+
+const companyModel: UpstreamModel<Company> = { fields: upstreamCompanyFields, optional: ["id"], schema: upstreamCompanySchema };
+const eventModel: UpstreamModel<Event> = { fields: upstreamEventFields, optional: ["id"], schema: upstreamEventSchema };
+const podcastModel: UpstreamModel<PodcastItem> = { fields: upstreamPodcastFields, schema: upstreamPodcastSchema };
+
+export class BlockzaAPIClient {
+  private baseUrl: string;
+  private eventsUrl: string;
+  private podcastsUrl: string;
+  private cache: ResponseCache;
+  private breakers: Record<Endpoint, CircuitBreaker>;
+  private drift: Partial<Record<Endpoint, DriftReport>> = {};
+  // ID indexes over cached lists, rebuilt only when a list is refetched
+  private indexes = new WeakMap<object[], Map<string, object>>();
+
+  constructor(private api: ApiSettings, private cacheSettings: CacheSettings, private http: HttpSettings) {
+    this.baseUrl = resolveEndpoint(api, "directory");
+    this.eventsUrl = resolveEndpoint(api, "events");
+    this.podcastsUrl = resolveEndpoint(api, "podcasts");
+    this.cache = new ResponseCache(cacheSettings.enabled ? cacheSettings.maxEntries : 0);
+
+    const { failureThreshold, resetSeconds } = http.circuitBreaker;
+    this.breakers = {
+      directory: new CircuitBreaker("directory", failureThreshold, resetSeconds * 1000),
+      events: new CircuitBreaker("events", failureThreshold, resetSeconds * 1000),
+      podcasts: new CircuitBreaker("podcasts", failureThreshold, resetSeconds * 1000)
+    };
+  }
+
+  private request(endpoint: Endpoint, url: URL): Promise<Response> {
+    return fetchWithRetry(
+      url.toString(),
+      { headers: { Accept: "application/json", ...this.api.headers } },
+      this.http,
+      this.breakers[endpoint]
+    );
+  }
+
+  // Responses are validated and normalized before they are cached, per endpoint and per query string
+  private fetchJson<T>(endpoint: Endpoint, url: URL, parse: (payload: unknown) => T): Promise<T> {
+    return this.cached(endpoint, url, async () => {
+      const response = await this.request(endpoint, url);
+      return parse(await response.json());
+    });
+  }
+
+  private cached<T>(endpoint: Endpoint, url: URL, load: () => Promise<T>): Promise<T> {
+    if (!this.cacheSettings.enabled) return load();
+    return this.cache.get(`${endpoint}:${url.toString()}`, load, {
+      ttlMs: this.cacheSettings.ttlSeconds[endpoint] * 1000,
+      staleMs: this.cacheSettings.staleSeconds * 1000
+    });
+  }
+
+  refreshCache(endpoint?: Endpoint): number {
+    return this.cache.invalidate(endpoint && `${endpoint}:`);
+  }
+
+  getCacheStats() {
+    return { enabled: this.cacheSettings.enabled, ...this.cache.stats() };
+  }
+
+  // The most recent drift report per endpoint
+  getSchemaDiagnostics(): Partial<Record<Endpoint, DriftReport>> {
+    return { ...this.drift };
+  }
+
+  private parseList<T>(endpoint: Endpoint, url: URL, model: UpstreamModel<T>, raw: unknown[]): T[] {
+    const { items, report } = parseItems(endpoint, url.toString(), model, raw);
+    this.drift[endpoint] = report;
+    if (hasDrift(report)) console.error(summarizeDrift(report));
+    return items;
+  }
+
+  private indexOf<T extends { id: string }>(items: T[]): Map<string, T> {
+    let index = this.indexes.get(items) as Map<string, T> | undefined;
+    if (!index) {
+      index = new Map(items.map(item => [item.id, item]));
+      this.indexes.set(items, index);
+    }
+    return index;
+  }
+
+  // GET <endpoint>/<id>; a 404 is cached as null like any other response
+  private fetchItem<T>(endpoint: Endpoint, base: string, id: string, model: UpstreamModel<T>): Promise<T | null> {
+    const url = new URL(base);
+    url.pathname = `${url.pathname.replace(/\/$/, "")}/${encodeURIComponent(id)}`;
+    return this.cached(endpoint, url, async () => {
+      let response: Response;
+      try {
+        response = await this.request(endpoint, url);
+      } catch (error) {
+        if (error instanceof UpstreamError && error.status === 404) return null;
+        throw error;
+      }
+      const payload = parseEnvelope(endpoint, url.toString(), itemResponseSchema, await response.json());
+      const result = model.schema.safeParse(payload);
+      if (!result.success) throw new SchemaDriftError(endpoint, url.toString(), toSchemaIssues(result.error));
+      return result.data;
+    });
+  }
+
+  // Resolves IDs from the indexed full list in one fetch; only IDs missing from it
+  // (e.g. beyond api.defaults.limit) cost a targeted request each
+  private async lookupByIds<T extends { id: string }>(
+    ids: string[],
+    list: () => Promise<T[]>,
+    fetchOne: (id: string) => Promise<T | null>
+  ): Promise<Map<string, T>> {
+    const index = this.indexOf(await list());
+    const found = new Map<string, T>();
+    const missing: string[] = [];
+    for (const id of new Set(ids)) {
+      const item = index.get(id);
+      if (item) found.set(id, item);
+      else missing.push(id);
+    }
+
+    const fetched = await Promise.allSettled(missing.map(id => fetchOne(id)));
+    fetched.forEach((result, i) => {
+      if (result.status === "fulfilled") {
+        if (result.value) found.set(missing[i]!, result.value);
+      } else if (result.reason instanceof SchemaDriftError) {
+        throw result.reason;
+      } else {
+        console.error(`Failed to fetch ${missing[i]} by ID:`, result.reason);
+      }
+    });
+    return found;
+  }
+
+  getUpstreamStatus() {
+    return {
+      directory: this.breakers.directory.status(),
+      events: this.breakers.events.status(),
+      podcasts: this.breakers.podcasts.status()
+    };
+  }
+
+  private applyDefaultLimit(url: URL, limit?: number) {
+    const effective = limit ?? this.api.defaults.limit;
+    if (effective) url.searchParams.set('limit', effective.toString());
+  }
+
+  async getCompanies(params?: {
+    limit?: number;
+    category?: string;
+    search?: string;
+    verified?: boolean;
+  }): Promise<ApiResponse> {
+    try {
+      const url = new URL(this.baseUrl);
+      this.applyDefaultLimit(url, params?.limit);
+      if (params?.category) url.searchParams.set('category', params.category);
+      if (params?.search) url.searchParams.set('search', params.search);
+      if (params?.verified !== undefined) url.searchParams.set('verified', params.verified.toString());
+
+      return await this.fetchJson("directory", url, payload => {
+        const response = parseEnvelope("directory", url.toString(), directoryResponseSchema, payload);
+        return { success: response.success, data: this.parseList("directory", url, companyModel, response.data ?? []) };
+      });
+    } catch (error) {
+      console.error('API request failed:', error);
+      throw error;
+    }
+  }
+
+  // Resolves a slug, name, website or social handle without guessing; see resolver.ts
+  async resolveCompany(identifier: string): Promise<CompanyResolution> {
+    const data = await this.getCompanies();
+    const resolution = resolveCompany(data.data, identifier);
+    if (resolution.candidates.some(candidate => candidate.method !== "fuzzy")) return resolution;
+
+    // The full listing may be capped by api.defaults.limit, so a fuzzy match there can
+    // hide an exact one upstream. Resolving over both lets the exact stages win.
+    const searched = await this.getCompanies({ search: identifier });
+    const listed = new Set(data.data.map(company => company.slug));
+    return resolveCompany([...data.data, ...searched.data.filter(company => !listed.has(company.slug))], identifier);
+  }
+
+  // Only returns a company that resolved unambiguously
+  async getCompanyBySlug(slug: string): Promise<Company | null> {
+    try {
+      const resolution = await this.resolveCompany(slug);
+      return resolution.match?.company ?? null;
+    } catch (error) {
+      if (error instanceof SchemaDriftError) throw error;
+      console.error('Failed to get company by slug:', error);
+      return null;
+    }
+  }
+
+  async getCompaniesByCategory(category: string): Promise<Company[]> {
+    try {
+      const data = await this.getCompanies({ category });
+      return data.success ? data.data : [];
+    } catch (error) {
+      if (error instanceof SchemaDriftError) throw error;
+      console.error('Failed to get companies by category:', error);
+      return [];
+    }
+  }
+
+  async getEvents(params?: {
+    limit?: number;
+    category?: string;
+    search?: string;
+    country?: string;
+    city?: string;
+    upcoming?: boolean;
+  }): Promise<Event[]> {
+    try {
+      const url = new URL(this.eventsUrl);
+      this.applyDefaultLimit(url, params?.limit);
+      if (params?.category) url.searchParams.set('category', params.category);
+      if (params?.search) url.searchParams.set('search', params.search);
+      if (params?.country) url.searchParams.set('country', params.country);
+      if (params?.city) url.searchParams.set('city', params.city);
+      if (params?.upcoming !== undefined) url.searchParams.set('upcoming', params.upcoming.toString());
+
+      return await this.fetchJson("events", url, payload => {
+        const events = parseEnvelope("events", url.toString(), eventsResponseSchema, payload);
+        return this.parseList("events", url, eventModel, events);
+      });
+    } catch (error) {
+      console.error('Events API request failed:', error);
+      throw error;
+    }
+  }
+
+  // Keyed by the requested ID; IDs that do not exist are left out
+  getEventsByIds(ids: string[]): Promise<Map<string, Event>> {
+    return this.lookupByIds(ids, () => this.getEvents(), id => this.fetchItem("events", this.eventsUrl, id, eventModel));
+  }
+
+  async getEventById(id: string): Promise<Event | null> {
+    try {
+      const events = await this.getEventsByIds([id]);
+      return events.get(id) ?? null;
+    } catch (error) {
+      if (error instanceof SchemaDriftError) throw error;
+      console.error('Failed to get event by ID:', error);
+      return null;
+    }
+  }
+
+  async getEventsByCategory(category: string): Promise<Event[]> {
+    try {
+      return await this.getEvents({ category });
+    } catch (error) {
+      if (error instanceof SchemaDriftError) throw error;
+      console.error('Failed to get events by category:', error);
+      return [];
+    }
+  }
+
+  // Events that have not ended yet, including those in progress, soonest first
+  async getUpcomingEvents(): Promise<Event[]> {
+    try {
+      const events = await this.getEvents();
+      const now = Date.now();
+      return events
+        .filter(event => eventStatus(event, now) !== "past")
+        .sort((a, b) => Date.parse(a.eventStartDate) - Date.parse(b.eventStartDate));
+    } catch (error) {
+      if (error instanceof SchemaDriftError) throw error;
+      console.error('Failed to get upcoming events:', error);
+      return [];
+    }
+  }
+
+  // Matched locally on normalized names, so "US", "USA" and "United States" are one country
+  async getEventsByLocation(filter: LocationFilter): Promise<Event[]> {
+    const matches = locationMatcher(filter);
+    try {
+      return (await this.getEvents()).filter(matches);
+    } catch (error) {
+      if (error instanceof SchemaDriftError) throw error;
+      console.error('Failed to get events by location:', error);
+      return [];
+    }
+  }
+
+  async getPodcasts(params?: {
+    limit?: number;
+    category?: string;
+    search?: string;
+    company?: string;
+    status?: string; // e.g., published
+  }): Promise<PodcastItem[]> {
+    try {
+      const url = new URL(this.podcastsUrl);
+      this.applyDefaultLimit(url, params?.limit);
+      if (params?.category) url.searchParams.set('category', params.category);
+      if (params?.search) url.searchParams.set('search', params.search);
+      if (params?.company) url.searchParams.set('company', params.company);
+      const status = params?.status ?? this.api.defaults.podcastStatus;
+      if (status) url.searchParams.set('status', status);
+
+      return await this.fetchJson("podcasts", url, payload => {
+        const response = parseEnvelope("podcasts", url.toString(), podcastsResponseSchema, payload);
+        return this.parseList("podcasts", url, podcastModel, Array.isArray(response) ? response : response.data);
+      });
+    } catch (error) {
+      console.error('Podcasts API request failed:', error);
+      throw error;
+    }
+  }
+
+  // Keyed by the requested ID; IDs that do not exist are left out
+  getPodcastsByIds(ids: string[]): Promise<Map<string, PodcastItem>> {
+    return this.lookupByIds(ids, () => this.getPodcasts(), id => this.fetchItem("podcasts", this.podcastsUrl, id, podcastModel));
+  }
+
+  async getPodcastById(id: string): Promise<PodcastItem | null> {
+    try {
+      const items = await this.getPodcastsByIds([id]);
+      return items.get(id) ?? null;
+    } catch (error) {
+      if (error instanceof SchemaDriftError) throw error;
+      console.error('Failed to get podcast by ID:', error);
+      return null;
+    }
+  }
+
+  async getPodcastsByCategory(category: string): Promise<PodcastItem[]> {
+    try {
+      return await this.getPodcasts({ category });
+    } catch (error) {
+      if (error instanceof SchemaDriftError) throw error;
+      console.error('Failed to get podcasts by category:', error);
+      return [];
+    }
+  }
+}
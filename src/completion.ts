@@ -0,0 +1,128 @@
+// src/completion.ts
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { z } from "zod";
+import { BlockzaAPIClient } from "./client.js";
+
+const MAX_COMPLETIONS = 100;
+
+export interface CompletionCandidate {
+  value: string;
+  // Extra text the user may type instead of the value, e.g. a company name for a slug
+  labels?: string[];
+}
+
+export function normalizeText(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+}
+
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+// Lower is better: exact, prefix, word prefix, substring, then typo-tolerant prefix match
+function matchScore(input: string, text: string): number | null {
+  if (text === input) return 0;
+  if (text.startsWith(input)) return 1;
+  if (text.split(/[\s\-_/,.]+/).some(word => word.startsWith(input))) return 2;
+  if (text.includes(input)) return 3;
+
+  if (input.length < 3) return null;
+  // Compare against prefixes one character shorter or longer to tolerate a dropped or extra letter
+  const allowed = Math.max(1, Math.floor(input.length / 4));
+  const distance = Math.min(
+    ...[input.length - 1, input.length, input.length + 1].map(length => editDistance(input, text.slice(0, length)))
+  );
+  return distance <= allowed ? 4 + distance : null;
+}
+
+export function rankCompletions(input: string, candidates: CompletionCandidate[]): string[] {
+  const query = normalizeText(input);
+  const unique = new Map<string, CompletionCandidate>();
+  for (const candidate of candidates) {
+    if (candidate.value && !unique.has(candidate.value)) unique.set(candidate.value, candidate);
+  }
+
+  if (!query) {
+    return Array.from(unique.keys()).sort((a, b) => a.localeCompare(b)).slice(0, MAX_COMPLETIONS);
+  }
+
+  const scored: Array<{ value: string; score: number }> = [];
+  for (const candidate of unique.values()) {
+    let best: number | null = null;
+    for (const text of [candidate.value, ...(candidate.labels ?? [])]) {
+      const score = matchScore(query, normalizeText(text));
+      if (score !== null && (best === null || score < best)) best = score;
+    }
+    if (best !== null) scored.push({ value: candidate.value, score: best });
+  }
+
+  return scored
+    .sort((a, b) => a.score - b.score || a.value.localeCompare(b.value))
+    .slice(0, MAX_COMPLETIONS)
+    .map(entry => entry.value);
+}
+
+// Completion sources backed by live directory data. A failed lookup yields no
+// suggestions rather than an error, since completion is best-effort.
+export function createCompleters(apiClient: BlockzaAPIClient) {
+  const safely = (load: () => Promise<CompletionCandidate[]>) => async (value: string | undefined) => {
+    try {
+      return rankCompletions(value ?? "", await load());
+    } catch (error) {
+      console.error("Completion lookup failed:", error);
+      return [];
+    }
+  };
+
+  return {
+    companySlugs: safely(async () => {
+      const data = await apiClient.getCompanies();
+      return (data.data || []).map(company => ({ value: company.slug, labels: [company.name] }));
+    }),
+
+    companyCategories: safely(async () => {
+      const data = await apiClient.getCompanies();
+      return (data.data || []).map(company => ({ value: company.category }));
+    }),
+
+    eventIds: safely(async () => {
+      const events = await apiClient.getEvents();
+      return events.map(event => ({ value: event._id, labels: [event.title] }));
+    }),
+
+    eventCategories: safely(async () => {
+      const events = await apiClient.getEvents();
+      return events.map(event => ({ value: event.category }));
+    }),
+
+    eventLocations: safely(async () => {
+      const events = await apiClient.getEvents();
+      return events.flatMap(event => [{ value: event.country }, { value: event.city }]);
+    }),
+
+    podcastIds: safely(async () => {
+      const podcasts = await apiClient.getPodcasts();
+      return podcasts.map(p => ({ value: p.id, labels: [p.title] }));
+    })
+  };
+}
+
+export type Completers = ReturnType<typeof createCompleters>;
+
+// The SDK only completes prompt arguments whose top-level schema is Completable, so
+// an optional one cannot be wrapped in ZodOptional. The string schema accepts a missing
+// value instead: the argument is listed as optional and an omitted one arrives as "".
+export function optionalCompletable(complete: (value: string) => Promise<string[]>) {
+  const optionalString = z.custom<string>(value => value === undefined || typeof value === "string", "Expected a string")
+    .transform(value => value ?? "");
+  return completable(optionalString, complete);
+}
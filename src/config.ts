@@ -0,0 +1,450 @@
+// src/config.ts
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { z } from "zod";
+import { DEFAULT_SCORING, scoringSchema } from "./scoring.js";
+
+// Configuration is assembled from layers, lowest precedence first:
+// built-in profile -> config file -> config file profile -> env vars -> CLI flags.
+
+const DEFAULT_CONFIG_FILE = "blockza.config.json";
+const DEFAULT_PROFILE = "prod";
+
+const apiSchema = z.object({
+  baseUrl: z.string().url(),
+  endpoints: z.object({
+    directory: z.string().min(1),
+    events: z.string().min(1),
+    podcasts: z.string().min(1)
+  }).strict(),
+  headers: z.record(z.string()),
+  defaults: z.object({
+    limit: z.number().int().positive().optional(),
+    podcastStatus: z.string().min(1).optional()
+  }).strict()
+}).strict();
+
+const endpointSecondsSchema = z.object({
+  directory: z.number().nonnegative(),
+  events: z.number().nonnegative(),
+  podcasts: z.number().nonnegative()
+}).strict();
+
+const cacheSchema = z.object({
+  enabled: z.boolean(),
+  maxEntries: z.number().int().nonnegative(),
+  ttlSeconds: endpointSecondsSchema,
+  staleSeconds: z.number().nonnegative()
+}).strict();
+
+const httpSchema = z.object({
+  timeoutMs: z.number().int().positive(),
+  maxRetries: z.number().int().nonnegative(),
+  baseDelayMs: z.number().int().nonnegative(),
+  maxDelayMs: z.number().int().nonnegative(),
+  circuitBreaker: z.object({
+    failureThreshold: z.number().int().positive(),
+    resetSeconds: z.number().positive()
+  }).strict()
+}).strict();
+
+const transportSchema = z.object({
+  type: z.enum(["stdio", "http"]),
+  http: z.object({
+    host: z.string().min(1),
+    port: z.number().int().min(0).max(65535),
+    path: z.string().startsWith("/"),
+    sessionIdleSeconds: z.number().positive(),
+    allowedOrigins: z.array(z.string()).optional()
+  }).strict()
+}).strict();
+
+const subscriptionsSchema = z.object({
+  enabled: z.boolean(),
+  pollSeconds: z.number().positive()
+}).strict();
+
+const snapshotsSchema = z.object({
+  enabled: z.boolean(),
+  dir: z.string().min(1),
+  intervalSeconds: z.number().positive(),
+  retainDays: z.number().positive()
+}).strict();
+
+const rateLimitSchema = z.object({
+  requests: z.number().int().positive(),
+  perSeconds: z.number().positive()
+}).strict();
+
+const apiKeySchema = z.object({
+  id: z.string().min(1),
+  token: z.string().min(16, "token must be at least 16 characters").optional(),
+  tokenEnv: z.string().min(1).optional(),
+  tools: z.array(z.string()).optional(),
+  resources: z.array(z.string()).optional(),
+  prompts: z.array(z.string()).optional(),
+  rateLimit: rateLimitSchema.optional()
+}).strict().refine(key => (key.token === undefined) !== (key.tokenEnv === undefined), {
+  message: "exactly one of token or tokenEnv is required"
+});
+
+const authSchema = z.object({
+  required: z.boolean(),
+  keys: z.array(apiKeySchema),
+  defaultRateLimit: rateLimitSchema
+}).strict().refine(auth => new Set(auth.keys.map(key => key.id)).size === auth.keys.length, {
+  message: "key ids must be unique",
+  path: ["keys"]
+});
+
+const configSchema = z.object({
+  api: apiSchema,
+  cache: cacheSchema,
+  http: httpSchema,
+  transport: transportSchema,
+  subscriptions: subscriptionsSchema,
+  snapshots: snapshotsSchema,
+  scoring: scoringSchema,
+  auth: authSchema
+}).strict().superRefine((config, ctx) => {
+  if (config.transport.type === "http" && config.auth.required && config.auth.keys.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["auth", "keys"],
+      message: "the http transport requires at least one API key (or set auth.required to false)"
+    });
+  }
+});
+
+export type ApiSettings = z.infer<typeof apiSchema>;
+export type CacheSettings = z.infer<typeof cacheSchema>;
+export type HttpSettings = z.infer<typeof httpSchema>;
+export type TransportSettings = z.infer<typeof transportSchema>;
+export type SubscriptionSettings = z.infer<typeof subscriptionsSchema>;
+export type SnapshotSettings = z.infer<typeof snapshotsSchema>;
+export type AuthSettings = z.infer<typeof authSchema>;
+export type Endpoint = keyof ApiSettings["endpoints"];
+
+export interface AppConfig extends z.infer<typeof configSchema> {
+  profile: string;
+  source: string | null;
+}
+
+type Layer = Record<string, unknown>;
+
+const BUILTIN_PROFILES: Record<string, Layer> = {
+  prod: {
+    api: { baseUrl: "https://api.blockza.io" }
+  },
+  local: {
+    api: { baseUrl: "http://localhost:3000" }
+  }
+};
+
+const BASE_LAYER: Layer = {
+  api: {
+    endpoints: {
+      directory: "/api/directory",
+      events: "/api/events",
+      podcasts: "/api/podcasts"
+    },
+    headers: {},
+    defaults: {}
+  },
+  cache: {
+    enabled: true,
+    maxEntries: 200,
+    ttlSeconds: { directory: 300, events: 300, podcasts: 300 },
+    staleSeconds: 600
+  },
+  http: {
+    timeoutMs: 10000,
+    maxRetries: 2,
+    baseDelayMs: 300,
+    maxDelayMs: 5000,
+    circuitBreaker: { failureThreshold: 5, resetSeconds: 30 }
+  },
+  transport: {
+    type: "stdio",
+    http: {
+      host: "127.0.0.1",
+      port: 8080,
+      path: "/mcp",
+      sessionIdleSeconds: 1800
+    }
+  },
+  subscriptions: {
+    enabled: true,
+    pollSeconds: 60
+  },
+  snapshots: {
+    enabled: false,
+    dir: join(homedir(), ".blockza-mcp", "snapshots"),
+    intervalSeconds: 21600,
+    retainDays: 90
+  },
+  scoring: DEFAULT_SCORING,
+  auth: {
+    required: true,
+    keys: [],
+    defaultRateLimit: { requests: 120, perSeconds: 60 }
+  }
+};
+
+export class ConfigError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}\n${issues.map(issue => `  - ${issue}`).join("\n")}` : message);
+    this.name = "ConfigError";
+  }
+}
+
+function isPlainObject(value: unknown): value is Layer {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function mergeLayers(target: Layer, source: Layer): Layer {
+  const result: Layer = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined) continue;
+    const existing = result[key];
+    result[key] = isPlainObject(existing) && isPlainObject(value) ? mergeLayers(existing, value) : value;
+  }
+  return result;
+}
+
+function readConfigFile(path: string): Layer {
+  let raw: string;
+  try {
+    raw = readFileSync(path, "utf8");
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file ${path}: ${error}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new ConfigError(`Config file ${path} is not valid JSON: ${error}`);
+  }
+
+  if (!isPlainObject(parsed)) {
+    throw new ConfigError(`Config file ${path} must contain a JSON object`);
+  }
+  if (parsed.profiles !== undefined && !isPlainObject(parsed.profiles)) {
+    throw new ConfigError(`Config file ${path}: "profiles" must be an object keyed by profile name`);
+  }
+  if (parsed.profile !== undefined && typeof parsed.profile !== "string") {
+    throw new ConfigError(`Config file ${path}: "profile" must be a string`);
+  }
+  return parsed;
+}
+
+function parseHeaderFlag(value: string): [string, string] {
+  const separator = value.indexOf(":");
+  if (separator <= 0) {
+    throw new ConfigError(`Invalid --header value "${value}", expected "Name: value"`);
+  }
+  return [value.slice(0, separator).trim(), value.slice(separator + 1).trim()];
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  return value === undefined || value === "" ? undefined : Number(value);
+}
+
+function parseBoolean(value: string | undefined): boolean | string | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (["1", "true", "yes", "on"].includes(value.toLowerCase())) return true;
+  if (["0", "false", "no", "off"].includes(value.toLowerCase())) return false;
+  return value;
+}
+
+function parseCliArgs(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      options: {
+        config: { type: "string" },
+        profile: { type: "string" },
+        "base-url": { type: "string" },
+        "directory-url": { type: "string" },
+        "events-url": { type: "string" },
+        "podcasts-url": { type: "string" },
+        header: { type: "string", multiple: true },
+        "default-limit": { type: "string" },
+        "no-cache": { type: "boolean" },
+        "timeout-ms": { type: "string" },
+        "max-retries": { type: "string" },
+        transport: { type: "string" },
+        host: { type: "string" },
+        port: { type: "string" },
+        "poll-seconds": { type: "string" },
+        "snapshot-dir": { type: "string" }
+      },
+      strict: true,
+      allowPositionals: false
+    }).values;
+  } catch (error) {
+    throw new ConfigError(`Invalid command line: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function envLayer(env: NodeJS.ProcessEnv): Layer {
+  let headers: unknown;
+  if (env.BLOCKZA_HEADERS) {
+    try {
+      headers = JSON.parse(env.BLOCKZA_HEADERS);
+    } catch (error) {
+      throw new ConfigError(`BLOCKZA_HEADERS is not valid JSON: ${error}`);
+    }
+  }
+
+  return {
+    api: {
+      baseUrl: env.BLOCKZA_BASE_URL || undefined,
+      endpoints: {
+        directory: env.BLOCKZA_DIRECTORY_URL || undefined,
+        events: env.BLOCKZA_EVENTS_URL || undefined,
+        podcasts: env.BLOCKZA_PODCASTS_URL || undefined
+      },
+      headers,
+      defaults: {
+        limit: parseNumber(env.BLOCKZA_DEFAULT_LIMIT),
+        podcastStatus: env.BLOCKZA_PODCAST_STATUS || undefined
+      }
+    },
+    cache: {
+      enabled: parseBoolean(env.BLOCKZA_CACHE_ENABLED),
+      maxEntries: parseNumber(env.BLOCKZA_CACHE_MAX_ENTRIES),
+      staleSeconds: parseNumber(env.BLOCKZA_CACHE_STALE_SECONDS)
+    },
+    http: {
+      timeoutMs: parseNumber(env.BLOCKZA_TIMEOUT_MS),
+      maxRetries: parseNumber(env.BLOCKZA_MAX_RETRIES)
+    },
+    transport: {
+      type: env.BLOCKZA_TRANSPORT || undefined,
+      http: {
+        host: env.BLOCKZA_HOST || undefined,
+        port: parseNumber(env.BLOCKZA_PORT)
+      }
+    },
+    subscriptions: {
+      enabled: parseBoolean(env.BLOCKZA_SUBSCRIPTIONS_ENABLED),
+      pollSeconds: parseNumber(env.BLOCKZA_POLL_SECONDS)
+    },
+    snapshots: {
+      enabled: parseBoolean(env.BLOCKZA_SNAPSHOTS_ENABLED),
+      dir: env.BLOCKZA_SNAPSHOT_DIR || undefined
+    },
+    auth: {
+      required: parseBoolean(env.BLOCKZA_AUTH_REQUIRED)
+    }
+  };
+}
+
+function cliLayer(values: ReturnType<typeof parseCliArgs>): Layer {
+  const headers = values.header?.length
+    ? Object.fromEntries(values.header.map(parseHeaderFlag))
+    : undefined;
+
+  return {
+    api: {
+      baseUrl: values["base-url"],
+      endpoints: {
+        directory: values["directory-url"],
+        events: values["events-url"],
+        podcasts: values["podcasts-url"]
+      },
+      headers,
+      defaults: {
+        limit: parseNumber(values["default-limit"])
+      }
+    },
+    cache: {
+      enabled: values["no-cache"] ? false : undefined
+    },
+    http: {
+      timeoutMs: parseNumber(values["timeout-ms"]),
+      maxRetries: parseNumber(values["max-retries"])
+    },
+    transport: {
+      type: values.transport,
+      http: {
+        host: values.host,
+        port: parseNumber(values.port)
+      }
+    },
+    subscriptions: {
+      pollSeconds: parseNumber(values["poll-seconds"])
+    },
+    snapshots: {
+      dir: values["snapshot-dir"]
+    }
+  };
+}
+
+// Keys may reference their token through an environment variable instead of inlining it
+function resolveKeyTokens<T extends { auth: AuthSettings }>(config: T, env: NodeJS.ProcessEnv): T {
+  const missing: string[] = [];
+  const keys = config.auth.keys.map((key, index) => {
+    if (key.tokenEnv === undefined) return key;
+    const token = env[key.tokenEnv];
+    if (!token || token.length < 16) {
+      missing.push(`auth.keys.${index}.tokenEnv: ${key.tokenEnv} must be set to a token of at least 16 characters`);
+    }
+    return { ...key, token };
+  });
+
+  if (missing.length > 0) {
+    throw new ConfigError("Invalid configuration", missing);
+  }
+  return { ...config, auth: { ...config.auth, keys } };
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+}
+
+export function loadConfig(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const cli = parseCliArgs(argv);
+
+  const explicitPath = cli.config ?? env.BLOCKZA_CONFIG;
+  const configPath = resolve(explicitPath ?? DEFAULT_CONFIG_FILE);
+  if (explicitPath && !existsSync(configPath)) {
+    throw new ConfigError(`Config file not found: ${configPath}`);
+  }
+  const file = existsSync(configPath) ? readConfigFile(configPath) : null;
+
+  const { profile: fileProfile, profiles: fileProfiles, ...fileRoot } = file ?? {};
+  const customProfiles = (fileProfiles ?? {}) as Record<string, unknown>;
+  const profile = cli.profile ?? (env.BLOCKZA_PROFILE || undefined) ?? (fileProfile as string | undefined) ?? DEFAULT_PROFILE;
+
+  const builtin = BUILTIN_PROFILES[profile];
+  const custom = customProfiles[profile];
+  if (!builtin && custom === undefined) {
+    const known = Array.from(new Set([...Object.keys(BUILTIN_PROFILES), ...Object.keys(customProfiles)])).sort();
+    throw new ConfigError(`Unknown profile "${profile}". Known profiles: ${known.join(", ")}`);
+  }
+  if (custom !== undefined && !isPlainObject(custom)) {
+    throw new ConfigError(`Profile "${profile}" in ${configPath} must be an object`);
+  }
+
+  let merged = mergeLayers(BASE_LAYER, builtin ?? {});
+  merged = mergeLayers(merged, fileRoot);
+  merged = mergeLayers(merged, custom ?? {});
+  merged = mergeLayers(merged, envLayer(env));
+  merged = mergeLayers(merged, cliLayer(cli));
+
+  const result = configSchema.safeParse(merged);
+  if (!result.success) {
+    throw new ConfigError(`Invalid configuration (profile "${profile}")`, formatIssues(result.error));
+  }
+
+  return { ...resolveKeyTokens(result.data, env), profile, source: file ? configPath : null };
+}
+
+export function resolveEndpoint(api: ApiSettings, endpoint: Endpoint): string {
+  return new URL(api.endpoints[endpoint], api.baseUrl).toString();
+}
@@ -0,0 +1,156 @@
+// src/events.ts
+import { z } from "zod";
+import { BlockzaAPIClient, Event } from "./client.js";
+import { LocationFilter, locationMatcher } from "./locations.js";
+import { QueryUriTemplate } from "./pagination.js";
+import { eventSearchFields, rankItems, withSearchHits } from "./search.js";
+
+const DAY_MS = 86_400_000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_8601 = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/i;
+const HAS_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+export class EventFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EventFilterError";
+  }
+}
+
+export const EVENT_STATUSES = ["upcoming", "ongoing", "past"] as const;
+export type EventStatus = typeof EVENT_STATUSES[number];
+
+// Date and status filters, applied locally by every event listing
+export const eventDateArgs = {
+  start_after: z.string().optional().describe("Only events starting on or after this ISO 8601 date or timestamp"),
+  start_before: z.string().optional().describe("Only events starting on or before this ISO 8601 date or timestamp; a bare date includes that whole day"),
+  end_after: z.string().optional().describe("Only events still running on or after this ISO 8601 date or timestamp"),
+  status: z.enum(EVENT_STATUSES).optional().describe("upcoming: not started yet; ongoing: started and not yet ended; past: ended")
+};
+
+// Compared by normalized name, so codes and common aliases work too
+export const eventLocationArgs = {
+  country: z.string().optional().describe("Filter by country: name, ISO code or alias (e.g., 'USA', 'DE', 'UAE')"),
+  city: z.string().optional().describe("Filter by city; common aliases work (e.g., 'NYC', 'Bangalore')"),
+  region: z.string().optional().describe("Filter by continent, subregion or grouping (e.g., 'Europe', 'Southeast Asia', 'Middle East', 'EU', 'LATAM', 'APAC')")
+};
+
+// Filters shared by event exports; every field is optional
+export const eventFilterArgs = {
+  search: z.string().optional().describe("Search terms matched against title, organizer, category, location and description"),
+  category: z.string().optional().describe("Filter by event category (e.g., 'Conference', 'Meetup')"),
+  ...eventLocationArgs,
+  ...eventDateArgs
+};
+
+export interface EventDateFilter {
+  start_after?: string | undefined;
+  start_before?: string | undefined;
+  end_after?: string | undefined;
+  status?: EventStatus | undefined;
+}
+
+export interface EventFilter extends EventDateFilter, LocationFilter {
+  search?: string | undefined;
+  category?: string | undefined;
+}
+
+export const eventTimingSchema = z.object({
+  status: z.enum(EVENT_STATUSES),
+  duration_days: z.number().describe("Calendar days (UTC) the event spans, counting the first and last day"),
+  days_until_start: z.number().describe("Calendar days (UTC) from today to the first day: 0 when it starts today, negative when it started earlier")
+});
+export type EventTiming = z.infer<typeof eventTimingSchema>;
+
+const isMidnight = (time: number) => time % DAY_MS === 0;
+const utcDay = (time: number) => Math.floor(time / DAY_MS);
+
+// Epoch ms at which an event is over. Events starting and ending at midnight UTC are
+// all-day events that last until the end of their final day (as in the iCalendar export).
+export function eventEnd(event: Event): number {
+  const start = Date.parse(event.eventStartDate);
+  const end = Math.max(Date.parse(event.eventEndDate) || start, start);
+  return isMidnight(start) && isMidnight(end) ? end + DAY_MS - 1 : end;
+}
+
+export function eventStatus(event: Event, now = Date.now()): EventStatus {
+  if (Date.parse(event.eventStartDate) > now) return "upcoming";
+  return eventEnd(event) >= now ? "ongoing" : "past";
+}
+
+export function eventTiming(event: Event, now = Date.now()): EventTiming {
+  const start = Date.parse(event.eventStartDate);
+  return {
+    status: eventStatus(event, now),
+    duration_days: utcDay(eventEnd(event)) - utcDay(start) + 1,
+    days_until_start: utcDay(start) - utcDay(now)
+  };
+}
+
+// The iCalendar export resource, with the filters as query parameters
+export const calendarUri = new QueryUriTemplate("blockza://events/calendar.ics", Object.keys(eventFilterArgs));
+
+// e.g. `upcoming, matching "zk", category Conference, in Berlin`
+export function describeEventFilter(filter: EventFilter): string {
+  const location = [filter.city, filter.country, filter.region].filter(Boolean).join(", ");
+  return [
+    filter.status,
+    filter.search && `matching "${filter.search}"`,
+    filter.category && `category ${filter.category}`,
+    location && `in ${location}`,
+    filter.start_after && `starting from ${filter.start_after}`,
+    filter.start_before && `starting until ${filter.start_before}`,
+    filter.end_after && `running on ${filter.end_after} or later`
+  ].filter(Boolean).join(", ");
+}
+
+export function calendarName(filter: EventFilter): string {
+  const described = describeEventFilter(filter);
+  return described ? `Blockza Events (${described})` : "Blockza Events";
+}
+
+// Epoch ms of a bound. Bounds are read in UTC unless they carry an offset, like the
+// event dates themselves; a bare date used as an upper bound covers the whole day.
+function parseBound(name: string, value: string, upper: boolean): number {
+  const text = value.trim();
+  const time = ISO_8601.test(text) ? Date.parse(DATE_ONLY.test(text) || HAS_OFFSET.test(text) ? text : `${text}Z`) : NaN;
+  if (Number.isNaN(time)) {
+    throw new EventFilterError(`Invalid ${name}: "${value}". Use an ISO 8601 date or timestamp, e.g. 2026-11-01 or 2026-11-01T09:00:00+01:00`);
+  }
+  return upper && DATE_ONLY.test(text) ? time + DAY_MS - 1 : time;
+}
+
+export function hasDateFilter(filter: EventDateFilter): boolean {
+  return Boolean(filter.start_after || filter.start_before || filter.end_after || filter.status);
+}
+
+// Applies the date and status filters, judging status against one `now`
+export function filterEventDates<T extends Event>(events: T[], filter: EventDateFilter, now = Date.now()): T[] {
+  const after = filter.start_after ? parseBound("start_after", filter.start_after, false) : -Infinity;
+  const before = filter.start_before ? parseBound("start_before", filter.start_before, true) : Infinity;
+  const endAfter = filter.end_after ? parseBound("end_after", filter.end_after, false) : -Infinity;
+  if (after > before) throw new EventFilterError("start_after must not be later than start_before");
+  if (filter.status && !EVENT_STATUSES.includes(filter.status)) {
+    throw new EventFilterError(`Invalid status: "${filter.status}". Use one of: ${EVENT_STATUSES.join(", ")}`);
+  }
+
+  return events.filter(event => {
+    const start = Date.parse(event.eventStartDate);
+    return start >= after && start <= before && eventEnd(event) >= endAfter &&
+      (!filter.status || eventStatus(event, now) === filter.status);
+  });
+}
+
+// Category filters upstream; location, search, dates and status are applied locally,
+// with the API's own search hits added to the listing before ranking.
+// Results are ranked by relevance when searching, otherwise in API order.
+export async function selectEvents(apiClient: BlockzaAPIClient, filter: EventFilter, now = Date.now()): Promise<Event[]> {
+  const matchesLocation = locationMatcher(filter);
+  const params = filter.category ? { category: filter.category } : {};
+  const [listed, searched] = await Promise.all([
+    apiClient.getEvents(params),
+    filter.search ? apiClient.getEvents({ ...params, search: filter.search }) : []
+  ]);
+  const events = withSearchHits(listed, searched, event => event.id);
+  return rankItems(filterEventDates(events.filter(matchesLocation), filter, now), eventSearchFields, filter.search).map(({ item }) => item);
+}
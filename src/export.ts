@@ -0,0 +1,267 @@
+// src/export.ts
+import { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { z } from "zod";
+import { BlockzaAPIClient } from "./client.js";
+import { normalizeText } from "./completion.js";
+import { selectEvents } from "./events.js";
+import { QueryUriTemplate } from "./pagination.js";
+import { unresolvedMessage } from "./resolver.js";
+import { Company } from "./schemas.js";
+import { companySearchFields, podcastSearchFields, rankItems, withSearchHits } from "./search.js";
+
+// Tabular export of directory entities as CSV, TSV or JSON Lines
+
+export const EXPORT_ENTITIES = ["companies", "team_members", "events", "podcasts"] as const;
+export type ExportEntity = typeof EXPORT_ENTITIES[number];
+
+export const EXPORT_FORMATS = ["csv", "tsv", "jsonl"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  jsonl: "application/jsonl"
+};
+
+// Used when no columns are requested; any flattened field can be asked for, or "*" for all
+export const DEFAULT_COLUMNS: Record<ExportEntity, string[]> = {
+  companies: [
+    "name", "slug", "category", "verificationStatus", "url", "founderName", "likes", "views", "isPromoted",
+    "socialLinks.twitter", "socialLinks.linkedin", "socialLinks.telegram",
+    "promotionSettings.hasAffiliateProgram", "promotionSettings.interestedInBusinessPartnership"
+  ],
+  team_members: ["company", "company_name", "name", "title", "status", "price", "bookingMethods", "responseRate", "followers", "linkedinUrl"],
+  events: ["id", "title", "company", "category", "eventStartDate", "eventEndDate", "location", "city", "country", "website"],
+  podcasts: ["id", "title", "company", "category", "status", "likes", "views", "createdAt", "slug"]
+};
+
+export const exportFilterArgs = {
+  search: z.string().optional().describe("Search terms; for team_members, matched against member names and titles"),
+  category: z.string().optional().describe("Company, event or podcast category; for team_members, the company category"),
+  verified_only: z.boolean().optional().describe("companies and team_members: only verified companies"),
+  company: z.string().optional().describe("team_members: one company (slug, name, website or social handle); podcasts: the company slug"),
+  country: z.string().optional().describe("events: filter by country"),
+  city: z.string().optional().describe("events: filter by city"),
+  start_after: z.string().optional().describe("events: only events starting on or after this ISO 8601 date"),
+  start_before: z.string().optional().describe("events: only events starting on or before this ISO 8601 date")
+};
+
+export type ExportFilter = { [K in keyof typeof exportFilterArgs]?: z.infer<typeof exportFilterArgs[K]> };
+
+const APPLICABLE_FILTERS: Record<ExportEntity, Array<keyof ExportFilter>> = {
+  companies: ["search", "category", "verified_only"],
+  team_members: ["search", "category", "verified_only", "company"],
+  events: ["search", "category", "country", "city", "start_after", "start_before"],
+  podcasts: ["search", "category", "company"]
+};
+
+// One resource per entity and format, each with its own mime type, e.g. blockza://export/companies.csv?category=AI
+export const exportUris = Object.fromEntries(
+  EXPORT_ENTITIES.flatMap(entity => EXPORT_FORMATS.map(format => [
+    `${entity}.${format}`,
+    new QueryUriTemplate(`blockza://export/${entity}.${format}`, ["columns", "limit", ...APPLICABLE_FILTERS[entity]])
+  ]))
+) as Record<`${ExportEntity}.${ExportFormat}`, QueryUriTemplate>;
+
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExportError";
+  }
+}
+
+type Cell = string | number | boolean | null;
+export type FlatRecord = Record<string, Cell>;
+
+// Nested objects become dotted columns (socialLinks.twitter); lists of plain values are
+// joined with "; " and lists of objects (such as a company's teamMembers) are kept as JSON
+export function flatten(value: Record<string, unknown>, prefix = "", into: FlatRecord = {}): FlatRecord {
+  for (const [key, field] of Object.entries(value)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (field === null || field === undefined) {
+      into[column] = null;
+    } else if (Array.isArray(field)) {
+      into[column] = field.every(item => item === null || typeof item !== "object")
+        ? field.map(item => String(item ?? "")).join("; ")
+        : JSON.stringify(field);
+    } else if (typeof field === "object") {
+      flatten(field as Record<string, unknown>, column, into);
+    } else {
+      into[column] = field as Cell;
+    }
+  }
+  return into;
+}
+
+async function companiesFor(apiClient: BlockzaAPIClient, filter: ExportFilter): Promise<Company[]> {
+  const params = {
+    ...(filter.category && { category: filter.category }),
+    ...(filter.verified_only !== undefined && { verified: filter.verified_only })
+  };
+  const [data, searched] = await Promise.all([
+    apiClient.getCompanies(params),
+    filter.search ? apiClient.getCompanies({ ...params, search: filter.search }) : undefined
+  ]);
+  return withSearchHits(data.data ?? [], searched?.data ?? [], company => company._id);
+}
+
+async function selectRows(apiClient: BlockzaAPIClient, entity: ExportEntity, filter: ExportFilter): Promise<FlatRecord[]> {
+  switch (entity) {
+    case "companies": {
+      const companies = await companiesFor(apiClient, filter);
+      return rankItems(companies, companySearchFields, filter.search).map(({ item }) => flatten(item));
+    }
+    case "team_members": {
+      let companies: Company[];
+      if (filter.company) {
+        const resolution = await apiClient.resolveCompany(filter.company);
+        if (!resolution.match) throw new ExportError(unresolvedMessage(resolution));
+        companies = [resolution.match.company];
+      } else {
+        // The search is for members, so it does not go to the directory API
+        companies = await companiesFor(apiClient, { ...filter, search: undefined });
+      }
+      const query = filter.search ? normalizeText(filter.search) : "";
+      return companies.flatMap(company => company.teamMembers
+        .filter(member => !query || normalizeText(`${member.name} ${member.title}`).includes(query))
+        .map(member => flatten(member, "", { company: company.slug, company_name: company.name })));
+    }
+    case "events":
+      return (await selectEvents(apiClient, filter)).map(event => flatten(event));
+    case "podcasts": {
+      const params = {
+        ...(filter.category && { category: filter.category }),
+        ...(filter.company && { company: filter.company })
+      };
+      const [listed, searched] = await Promise.all([
+        apiClient.getPodcasts(params),
+        filter.search ? apiClient.getPodcasts({ ...params, search: filter.search }) : []
+      ]);
+      const podcasts = withSearchHits(listed, searched, podcast => podcast.id);
+      return rankItems(podcasts, podcastSearchFields, filter.search).map(({ item }) => flatten(item));
+    }
+  }
+}
+
+// Keeps spreadsheet apps from evaluating text such as "=HYPERLINK(...)" as a formula
+function spreadsheetSafe(text: string): string {
+  return /^[=+\-@]/.test(text) && Number.isNaN(Number(text)) ? `'${text}` : text;
+}
+
+function csvCell(value: Cell): string {
+  if (value === null) return "";
+  const text = typeof value === "string" ? spreadsheetSafe(value) : String(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// TSV has no quoting, so tabs and line breaks inside values become spaces
+function tsvCell(value: Cell): string {
+  if (value === null) return "";
+  const text = typeof value === "string" ? spreadsheetSafe(value) : String(value);
+  return text.replace(/[\t\r\n]+/g, " ");
+}
+
+export function renderRows(rows: FlatRecord[], columns: string[], format: ExportFormat): string {
+  switch (format) {
+    case "csv":
+      // RFC 4180: CRLF line endings, quoted fields with doubled quotes
+      return [columns, ...rows.map(row => columns.map(column => row[column] ?? null))]
+        .map(cells => cells.map(csvCell).join(","))
+        .join("\r\n") + "\r\n";
+    case "tsv":
+      return [columns.map(tsvCell), ...rows.map(row => columns.map(column => tsvCell(row[column] ?? null)))]
+        .map(cells => cells.join("\t"))
+        .join("\n") + "\n";
+    case "jsonl":
+      return rows.map(row => JSON.stringify(Object.fromEntries(columns.map(column => [column, row[column] ?? null])))).join("\n") + (rows.length ? "\n" : "");
+  }
+}
+
+export interface ExportRequest {
+  entity: ExportEntity;
+  format: ExportFormat;
+  columns?: string[] | undefined;
+  limit?: number | undefined;
+  filter: ExportFilter;
+}
+
+// The resource URI that reproduces an export
+export function exportUri(request: ExportRequest): string {
+  const variables: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request.filter)) {
+    if (value !== undefined) variables[name] = String(value);
+  }
+  if (request.columns?.length) variables.columns = request.columns.join(",");
+  if (request.limit !== undefined) variables.limit = String(request.limit);
+  return exportUris[`${request.entity}.${request.format}`].expand(variables);
+}
+
+// The inverse of exportUri, for a matched resource URI
+export function exportRequestFrom(entity: ExportEntity, format: ExportFormat, variables: Variables): ExportRequest {
+  const first = (name: string) => {
+    const value = variables[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+  const columns = first("columns");
+  const limit = first("limit");
+  const verified = first("verified_only");
+  if (limit && !/^[1-9]\d*$/.test(limit)) {
+    throw new ExportError(`limit must be a positive integer, got "${limit}"`);
+  }
+  return {
+    entity,
+    format,
+    columns: columns ? columns.split(",").map(column => column.trim()).filter(Boolean) : undefined,
+    limit: limit ? Number(limit) : undefined,
+    filter: {
+      search: first("search"),
+      category: first("category"),
+      verified_only: verified === undefined ? undefined : verified === "true",
+      company: first("company"),
+      country: first("country"),
+      city: first("city"),
+      start_after: first("start_after"),
+      start_before: first("start_before")
+    }
+  };
+}
+
+export interface ExportResult {
+  entity: ExportEntity;
+  format: ExportFormat;
+  mime_type: string;
+  filename: string;
+  resource_uri: string;
+  columns: string[];
+  row_count: number;
+  content: string;
+}
+
+export async function exportEntities(apiClient: BlockzaAPIClient, request: ExportRequest): Promise<ExportResult> {
+  const { entity, format, filter } = request;
+  const ignored = (Object.keys(filter) as Array<keyof ExportFilter>)
+    .filter(name => filter[name] !== undefined && !APPLICABLE_FILTERS[entity].includes(name));
+  if (ignored.length) {
+    throw new ExportError(`${ignored.join(", ")} cannot filter ${entity}; supported filters: ${APPLICABLE_FILTERS[entity].join(", ")}`);
+  }
+
+  const rows = (await selectRows(apiClient, entity, filter)).slice(0, request.limit);
+  const available = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const requested = request.columns?.length ? request.columns : DEFAULT_COLUMNS[entity];
+  const columns = Array.from(new Set(requested.flatMap(column => column === "*" ? available : [column])));
+  const unknown = rows.length ? columns.filter(column => !available.includes(column)) : [];
+  if (unknown.length) {
+    throw new ExportError(`Unknown column${unknown.length > 1 ? "s" : ""} for ${entity}: ${unknown.join(", ")}. Available: ${available.join(", ")}`);
+  }
+
+  return {
+    entity,
+    format,
+    mime_type: EXPORT_MIME_TYPES[format],
+    filename: `blockza-${entity.replace("_", "-")}.${format}`,
+    resource_uri: exportUri(request),
+    columns,
+    row_count: rows.length,
+    content: renderRows(rows, columns, format)
+  };
+}
@@ -0,0 +1,58 @@
+// src/geo.ts
+import { City, eventLocation, findCity, findCountry, LocationError } from "./locations.js";
+import { Event } from "./schemas.js";
+
+// Distances between events and places, using the city gazetteer in locations.ts
+
+const EARTH_RADIUS_KM = 6371;
+const COORDINATE_PAIR = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface Place extends Coordinates {
+  name: string;
+}
+
+const radians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle (haversine) distance
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const dLat = radians(b.latitude - a.latitude);
+  const dLon = radians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(radians(a.latitude)) * Math.cos(radians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function validCoordinates(latitude: number, longitude: number): boolean {
+  return Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+}
+
+// The gazetteer city an event takes place in, when its city is known and agrees with its country
+export function eventCity(event: Event): City | undefined {
+  const location = eventLocation(event);
+  const city = location.city ? findCity(location.city) : undefined;
+  return city && (!location.country_code || city.country === location.country_code) ? city : undefined;
+}
+
+// A gazetteer city ("Lisbon", "Lisbon, Portugal", "NYC") or a "latitude, longitude" pair
+export function findPlace(text: string): Place {
+  const pair = COORDINATE_PAIR.exec(text);
+  if (pair) {
+    const [latitude, longitude] = [Number(pair[1]), Number(pair[2])];
+    if (!validCoordinates(latitude, longitude)) {
+      throw new LocationError(`Invalid coordinates "${text}": latitude must be within ±90 and longitude within ±180`);
+    }
+    return { name: `${latitude}, ${longitude}`, latitude, longitude };
+  }
+
+  const comma = text.lastIndexOf(",");
+  const city = findCity(text) ?? (comma > 0 ? findCity(text.slice(0, comma)) : undefined);
+  const country = comma > 0 ? findCountry(text.slice(comma + 1)) : undefined;
+  if (!city || (country && country.code !== city.country)) {
+    throw new LocationError(`Unknown place "${text}". Use a major city such as "Lisbon" or "New York", or give latitude and longitude`);
+  }
+  return { name: city.name, latitude: city.latitude, longitude: city.longitude };
+}
@@ -0,0 +1,179 @@
+// src/history.ts
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { z } from "zod";
+import { BlockzaAPIClient } from "./client.js";
+import { SnapshotSettings } from "./config.js";
+import { EntityType } from "./search.js";
+import { EntityRecord, entityRecordSchema, takeEntityRecords } from "./snapshots.js";
+
+const DAY_MS = 86_400_000;
+const FILE_PATTERN = /^snapshot-(\d+)\.json$/;
+
+// One snapshot as written to disk
+export const storedSnapshotSchema = z.object({
+  taken_at: z.string(),
+  entities: z.array(entityRecordSchema)
+});
+export type StoredSnapshot = z.infer<typeof storedSnapshotSchema>;
+
+const entityRef = entityRecordSchema.pick({ type: true, id: true, uri: true, name: true });
+const transitionSchema = entityRef.extend({ from: z.string(), to: z.string() });
+const countChangeSchema = z.object({ from: z.number(), to: z.number(), delta: z.number() });
+
+export const directoryChangesSchema = z.object({
+  added: z.array(entityRecordSchema),
+  removed: z.array(entityRecordSchema),
+  verification_changes: z.array(transitionSchema).describe("Companies whose verification status changed"),
+  category_moves: z.array(transitionSchema),
+  engagement_changes: z.array(entityRef.extend({ likes: countChangeSchema, views: countChangeSchema }))
+    .describe("Companies and podcasts whose likes or views moved by at least the thresholds, largest first")
+});
+export type DirectoryChanges = z.infer<typeof directoryChangesSchema>;
+
+export interface ChangeOptions {
+  types?: readonly EntityType[];
+  minLikesDelta: number;
+  minViewsDelta: number;
+}
+
+const keyOf = (record: EntityRecord) => `${record.type}:${record.id}`;
+const refOf = ({ type, id, uri, name }: EntityRecord) => ({ type, id, uri, name });
+const countChange = (from = 0, to = 0) => ({ from, to, delta: to - from });
+
+// Everything that differs between two snapshots; entities are matched by type and id
+export function compareSnapshots(before: EntityRecord[], after: EntityRecord[], options: ChangeOptions): DirectoryChanges {
+  const wanted = (record: EntityRecord) => !options.types?.length || options.types.includes(record.type);
+  const previous = new Map(before.filter(wanted).map(record => [keyOf(record), record]));
+  const current = new Map(after.filter(wanted).map(record => [keyOf(record), record]));
+  const changes: DirectoryChanges = {
+    added: [],
+    removed: [],
+    verification_changes: [],
+    category_moves: [],
+    engagement_changes: []
+  };
+
+  for (const [key, record] of current) {
+    const old = previous.get(key);
+    if (!old) {
+      changes.added.push(record);
+      continue;
+    }
+    if (old.verificationStatus !== undefined && record.verificationStatus !== undefined && old.verificationStatus !== record.verificationStatus) {
+      changes.verification_changes.push({ ...refOf(record), from: old.verificationStatus, to: record.verificationStatus });
+    }
+    if (old.category !== record.category) {
+      changes.category_moves.push({ ...refOf(record), from: old.category, to: record.category });
+    }
+    if (record.likes !== undefined || record.views !== undefined) {
+      const likes = countChange(old.likes, record.likes);
+      const views = countChange(old.views, record.views);
+      if (Math.abs(likes.delta) >= options.minLikesDelta || Math.abs(views.delta) >= options.minViewsDelta) {
+        changes.engagement_changes.push({ ...refOf(record), likes, views });
+      }
+    }
+  }
+  for (const [key, record] of previous) {
+    if (!current.has(key)) changes.removed.push(record);
+  }
+
+  changes.engagement_changes.sort((a, b) =>
+    Math.abs(b.views.delta) - Math.abs(a.views.delta) || Math.abs(b.likes.delta) - Math.abs(a.likes.delta)
+  );
+  return changes;
+}
+
+// Snapshots of companies, events and podcasts written to `dir` every
+// `intervalSeconds`, one JSON file each, pruned after `retainDays`
+export class SnapshotHistory {
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(private apiClient: BlockzaAPIClient, private dir: string, private settings: Omit<SnapshotSettings, "enabled" | "dir">) {}
+
+  // e.g. "every 6 hours", for messages about when the next snapshot comes
+  describeSchedule(): string {
+    const hours = this.settings.intervalSeconds / 3600;
+    return Number.isInteger(hours) ? `every ${hours} hour${hours === 1 ? "" : "s"}` : `every ${this.settings.intervalSeconds} seconds`;
+  }
+
+  // Captures right away when the newest snapshot on disk is older than one interval
+  start() {
+    if (this.timer) return;
+    const intervalMs = this.settings.intervalSeconds * 1000;
+    this.timer = setInterval(() => void this.captureSafely(), intervalMs);
+    this.timer.unref();
+
+    this.list()
+      .then(async times => {
+        const latest = times.at(-1);
+        if (latest === undefined || Date.now() - latest >= intervalMs) await this.captureSafely();
+      })
+      .catch(error => console.error("Failed to read snapshot history:", error));
+  }
+
+  // Capture times (epoch ms) of the stored snapshots, oldest first
+  async list(): Promise<number[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    return files
+      .map(file => FILE_PATTERN.exec(file)?.[1])
+      .filter((time): time is string => time !== undefined)
+      .map(Number)
+      .sort((a, b) => a - b);
+  }
+
+  async load(time: number): Promise<StoredSnapshot> {
+    const text = await readFile(this.fileFor(time), "utf8");
+    return storedSnapshotSchema.parse(JSON.parse(text));
+  }
+
+  // The newest snapshot taken at or before `time`, or the oldest one when history starts later
+  async nearest(time: number): Promise<StoredSnapshot | null> {
+    const times = await this.list();
+    const match = times.filter(t => t <= time).at(-1) ?? times[0];
+    return match === undefined ? null : this.load(match);
+  }
+
+  // Current data in stored form, without writing it
+  async live(): Promise<StoredSnapshot> {
+    const taken_at = new Date().toISOString();
+    return { taken_at, entities: await takeEntityRecords(this.apiClient) };
+  }
+
+  async capture(): Promise<StoredSnapshot> {
+    const stored = await this.live();
+    const file = this.fileFor(Date.parse(stored.taken_at));
+
+    await mkdir(this.dir, { recursive: true });
+    // Write then rename, so a crash never leaves a truncated snapshot behind
+    await writeFile(`${file}.tmp`, JSON.stringify(stored));
+    await rename(`${file}.tmp`, file);
+    await this.prune();
+    return stored;
+  }
+
+  private async captureSafely() {
+    try {
+      await this.capture();
+    } catch (error) {
+      console.error("Failed to record directory snapshot:", error);
+    }
+  }
+
+  private async prune() {
+    const cutoff = Date.now() - this.settings.retainDays * DAY_MS;
+    for (const time of await this.list()) {
+      if (time < cutoff) await unlink(this.fileFor(time)).catch(() => undefined);
+    }
+  }
+
+  private fileFor(time: number): string {
+    return join(this.dir, `snapshot-${time}.json`);
+  }
+}
@@ -0,0 +1,152 @@
+// src/http.ts
+
+export interface RetryPolicy {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export class UpstreamError extends Error {
+  constructor(message: string, public readonly status?: number, public readonly retryable = false) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CircuitOpenError";
+  }
+}
+
+type CircuitState = "closed" | "open" | "half-open";
+
+// Opens after `failureThreshold` consecutive failed requests and rejects calls
+// until `resetMs` has passed; then one trial request decides whether it closes again.
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private name: string, private failureThreshold: number, private resetMs: number) {}
+
+  assertCanRequest() {
+    if (this.state === "closed") return;
+
+    const retryInMs = this.openedAt + this.resetMs - Date.now();
+    if (this.state === "open" && retryInMs <= 0) {
+      this.state = "half-open";
+    }
+    if (this.state === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    const seconds = Math.max(1, Math.ceil(retryInMs / 1000));
+    throw new CircuitOpenError(
+      `The Blockza ${this.name} API is currently unavailable (${this.failures} consecutive failures). Requests are paused; try again in ${seconds}s.`
+    );
+  }
+
+  recordSuccess() {
+    this.state = "closed";
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === "half-open" || this.failures >= this.failureThreshold) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  status() {
+    return { state: this.state, consecutiveFailures: this.failures };
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Retry-After may be delta-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Full jitter: a random delay between 0 and the exponential ceiling
+function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+async function attempt(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  try {
+    return await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+      throw new UpstreamError(`Request timed out after ${timeoutMs}ms`, undefined, true);
+    }
+    throw new UpstreamError(`Network error: ${error instanceof Error ? error.message : error}`, undefined, true);
+  }
+}
+
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  policy: RetryPolicy,
+  breaker: CircuitBreaker
+): Promise<Response> {
+  breaker.assertCanRequest();
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    let failure: UpstreamError;
+    let retryAfterMs: number | undefined;
+
+    try {
+      const response = await attempt(url, init, policy.timeoutMs);
+      if (response.ok) {
+        breaker.recordSuccess();
+        return response;
+      }
+
+      failure = new UpstreamError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        response.status,
+        isRetryableStatus(response.status)
+      );
+      retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      await response.body?.cancel().catch(() => undefined);
+      if (!failure.retryable) {
+        // Client errors say nothing about upstream health
+        breaker.recordSuccess();
+        throw failure;
+      }
+    } catch (error) {
+      if (!(error instanceof UpstreamError) || !error.retryable) throw error;
+      failure = error;
+    }
+
+    const delay = retryAfterMs ?? backoffDelay(attemptNumber, policy);
+    if (attemptNumber >= policy.maxRetries || delay > policy.maxDelayMs) {
+      breaker.recordFailure();
+      const suffix = delay > policy.maxDelayMs && retryAfterMs !== undefined
+        ? ` (upstream asked to retry after ${Math.ceil(retryAfterMs / 1000)}s)`
+        : attemptNumber > 0 ? ` after ${attemptNumber + 1} attempts` : "";
+      throw new UpstreamError(`${failure.message}${suffix}`, failure.status, failure.retryable);
+    }
+    await sleep(delay);
+  }
+}
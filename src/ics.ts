@@ -0,0 +1,136 @@
+// src/ics.ts
+import { Event } from "./schemas.js";
+
+// iCalendar (RFC 5545) export of events
+
+const DAY_MS = 86_400_000;
+const MAX_LINE_OCTETS = 75;
+const UID_DOMAIN = "blockza.io";
+
+export const ICS_MIME_TYPE = "text/calendar";
+
+export interface CalendarOptions {
+  name: string;
+  // DTSTAMP for events without a valid updatedAt
+  generatedAt?: Date;
+}
+
+// TEXT values escape backslashes, semicolons, commas and newlines (RFC 5545 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1),
+// split on character boundaries so multi-byte UTF-8 characters stay intact
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+function formatDate(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+function formatDateTime(date: Date): string {
+  return `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+const isMidnight = (date: Date) =>
+  date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0 && date.getUTCMilliseconds() === 0;
+
+function validDate(value: string): Date | null {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function httpUrl(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// UIDs depend only on the event id, so re-importing an export updates existing entries
+export function eventUid(event: Event): string {
+  return `event-${event.id}@${UID_DOMAIN}`;
+}
+
+// Events whose start and end fall on midnight UTC are all-day events; DTEND is
+// exclusive, so the last day is included by ending on the following date
+function eventTimes(event: Event): string[] {
+  const start = validDate(event.eventStartDate)!;
+  const end = validDate(event.eventEndDate) ?? start;
+  if (isMidnight(start) && isMidnight(end)) {
+    const last = end > start ? end : start;
+    return [`DTSTART;VALUE=DATE:${formatDate(start)}`, `DTEND;VALUE=DATE:${formatDate(new Date(last.getTime() + DAY_MS))}`];
+  }
+  return [`DTSTART:${formatDateTime(start)}`, ...(end > start ? [`DTEND:${formatDateTime(end)}`] : [])];
+}
+
+function eventLines(event: Event, generatedAt: Date): string[] {
+  const url = httpUrl(event.website);
+  const location = [event.location, event.city, event.country].map(part => part.trim()).filter(Boolean).join(", ");
+  const description = [
+    event.description.trim(),
+    event.company ? `Organizer: ${event.company}` : "",
+    url ? `Website: ${url}` : ""
+  ].filter(Boolean).join("\n\n");
+  const updated = validDate(event.updatedAt);
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${eventUid(event)}`,
+    `DTSTAMP:${formatDateTime(updated ?? generatedAt)}`,
+    ...(updated ? [`LAST-MODIFIED:${formatDateTime(updated)}`] : []),
+    ...eventTimes(event),
+    `SUMMARY:${escapeText(event.title)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    ...(location ? [`LOCATION:${escapeText(location)}`] : []),
+    ...(event.category ? [`CATEGORIES:${escapeText(event.category)}`] : []),
+    ...(url ? [`URL:${url}`] : []),
+    "END:VEVENT"
+  ];
+}
+
+// A complete VCALENDAR with one VEVENT per event, in start order, with CRLF line endings
+export function eventsToIcs(events: Event[], options: CalendarOptions): string {
+  const generatedAt = options.generatedAt ?? new Date();
+  const dated = events
+    .filter(event => validDate(event.eventStartDate))
+    .sort((a, b) => Date.parse(a.eventStartDate) - Date.parse(b.eventStartDate) || a.id.localeCompare(b.id));
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Blockza//Blockza Directory MCP Server//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...dated.flatMap(event => eventLines(event, generatedAt)),
+    "END:VCALENDAR"
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,196 @@
+// src/links.ts
+import { z } from "zod";
+import { BlockzaAPIClient } from "./client.js";
+import { RESOLUTION_METHODS, resolveCompany } from "./resolver.js";
+import {
+  Company,
+  Event,
+  eventSummarySchema,
+  PodcastItem,
+  podcastSummarySchema,
+  toEventSummary,
+  toPodcastSummary
+} from "./schemas.js";
+import { entityUri } from "./search.js";
+
+export const LINK_METHODS = ["id", ...RESOLUTION_METHODS] as const;
+export type LinkMethod = typeof LINK_METHODS[number];
+
+export const linkSchema = z.object({
+  method: z.enum(LINK_METHODS).describe("How the event or podcast company string matched: company id, slug, name, website domain, social handle or fuzzy name"),
+  confidence: z.number().describe("0 to 1; 1 is an exact id or slug match")
+});
+export type Link = z.infer<typeof linkSchema>;
+
+export interface CompanyLink extends Link {
+  company: Company;
+}
+
+export interface Linked<T> {
+  item: T;
+  link: Link;
+}
+
+export interface CompanyActivity {
+  events: Linked<Event>[];
+  podcasts: Linked<PodcastItem>[];
+}
+
+export interface CompanyGraph {
+  // Keyed by company id; a company without linked events or podcasts has no entry
+  activity: Map<string, CompanyActivity>;
+}
+
+export const ACTIVITY_TYPES = ["event", "podcast"] as const;
+export type ActivityType = typeof ACTIVITY_TYPES[number];
+
+export const activityItemSchema = z.object({
+  type: z.enum(ACTIVITY_TYPES),
+  id: z.string(),
+  title: z.string(),
+  date: z.string().describe("Event start date or podcast publication date (ISO 8601), empty when unknown"),
+  uri: z.string(),
+  link: linkSchema,
+  event: eventSummarySchema.optional(),
+  podcast: podcastSummarySchema.optional()
+});
+export type ActivityItem = z.infer<typeof activityItemSchema>;
+
+// Matches a company string from an event or podcast to a directory company: by id
+// first, then through the company resolver. Ambiguous strings stay unlinked.
+export function linkCompany(companies: Company[], byId: Map<string, Company>, value: string): CompanyLink | null {
+  const text = value.trim();
+  if (!text) return null;
+  const exact = byId.get(text);
+  if (exact) return { company: exact, method: "id", confidence: 1 };
+
+  const { match } = resolveCompany(companies, text);
+  return match && { company: match.company, method: match.method, confidence: match.confidence };
+}
+
+let lastGraph: { sources: unknown[][]; graph: CompanyGraph } | undefined;
+
+// Links every event and podcast once per set of cached lists; each distinct company string is resolved once
+export function buildCompanyGraph(companies: Company[], events: Event[], podcasts: PodcastItem[]): CompanyGraph {
+  const sources = [companies, events, podcasts];
+  if (lastGraph && lastGraph.sources.every((source, i) => source === sources[i])) return lastGraph.graph;
+
+  const byId = new Map<string, Company>();
+  for (const company of companies) {
+    byId.set(company._id, company);
+    byId.set(company.id, company);
+  }
+  const links = new Map<string, CompanyLink | null>();
+  const linkOf = (value: string) => {
+    if (!links.has(value)) links.set(value, linkCompany(companies, byId, value));
+    return links.get(value) ?? null;
+  };
+
+  const graph: CompanyGraph = { activity: new Map() };
+  const entry = (company: Company) => {
+    let activity = graph.activity.get(company._id);
+    if (!activity) {
+      activity = { events: [], podcasts: [] };
+      graph.activity.set(company._id, activity);
+    }
+    return activity;
+  };
+
+  for (const event of events) {
+    const link = linkOf(event.company);
+    if (link) entry(link.company).events.push({ item: event, link: { method: link.method, confidence: link.confidence } });
+  }
+  for (const podcast of podcasts) {
+    const link = linkOf(podcast.company);
+    if (link) entry(link.company).podcasts.push({ item: podcast, link: { method: link.method, confidence: link.confidence } });
+  }
+
+  lastGraph = { sources, graph };
+  return graph;
+}
+
+const time = (date: string) => {
+  const value = Date.parse(date);
+  return Number.isNaN(value) ? Infinity : value;
+};
+
+// Oldest first; items without a date go last
+const byTime = (a: number, b: number) => a === b ? 0 : a - b;
+const chronological = <T>(date: (item: T) => string) => (a: Linked<T>, b: Linked<T>) =>
+  byTime(time(date(a.item)), time(date(b.item)));
+
+export const eventDate = (event: Event) => event.eventStartDate;
+export const podcastDate = (podcast: PodcastItem) => podcast.createdAt;
+
+const NONE: never[] = [];
+
+export interface ActivityOptions {
+  types?: readonly ActivityType[];
+  minConfidence?: number;
+}
+
+export interface ActivityLookup {
+  events: Linked<Event>[];
+  podcasts: Linked<PodcastItem>[];
+  // Types whose API failed; the other type is still returned
+  unavailable: Array<{ type: ActivityType; error: string }>;
+}
+
+// The company's linked events and podcasts, each list in chronological order
+export async function getCompanyActivity(apiClient: BlockzaAPIClient, company: Company, options: ActivityOptions = {}): Promise<ActivityLookup> {
+  const types = options.types?.length ? options.types : ACTIVITY_TYPES;
+  const load = <T>(type: ActivityType, fetch: () => Promise<T[]>) => types.includes(type) ? fetch() : Promise.resolve(NONE as T[]);
+  const [data, settled] = await Promise.all([
+    apiClient.getCompanies(),
+    Promise.allSettled([load("event", () => apiClient.getEvents()), load("podcast", () => apiClient.getPodcasts())])
+  ]);
+
+  const unavailable: ActivityLookup["unavailable"] = [];
+  const [events, podcasts] = settled.map((result, i) => {
+    if (result.status === "fulfilled") return result.value;
+    unavailable.push({ type: ACTIVITY_TYPES[i]!, error: String(result.reason) });
+    return NONE;
+  });
+  if (unavailable.length === types.length) {
+    throw new Error(`Activity lookup failed: ${unavailable.map(entry => `${entry.type}: ${entry.error}`).join("; ")}`);
+  }
+
+  // The company may have come from an API search beyond the capped full list
+  const companies = data.data ?? [];
+  const all = companies.some(c => c._id === company._id) ? companies : [...companies, company];
+  const activity = buildCompanyGraph(all, events as Event[], podcasts as PodcastItem[]).activity.get(company._id);
+  const confident = <T>(items: Linked<T>[]) => items.filter(entry => entry.link.confidence >= (options.minConfidence ?? 0));
+
+  return {
+    events: confident(activity?.events ?? []).sort(chronological(eventDate)),
+    podcasts: confident(activity?.podcasts ?? []).sort(chronological(podcastDate)),
+    unavailable
+  };
+}
+
+// Events and podcasts merged into one chronological feed
+export function activityFeed(lookup: Pick<ActivityLookup, "events" | "podcasts">): ActivityItem[] {
+  const items: Array<ActivityItem & { time: number }> = [
+    ...lookup.events.map(({ item, link }) => ({
+      type: "event" as const,
+      id: item.id,
+      title: item.title,
+      date: eventDate(item),
+      uri: entityUri({ type: "event", item }),
+      link,
+      event: toEventSummary(item),
+      time: time(eventDate(item))
+    })),
+    ...lookup.podcasts.map(({ item, link }) => ({
+      type: "podcast" as const,
+      id: item.id,
+      title: item.title,
+      date: podcastDate(item),
+      uri: entityUri({ type: "podcast", item }),
+      link,
+      podcast: toPodcastSummary(item),
+      time: time(podcastDate(item))
+    }))
+  ];
+  return items.sort((a, b) => byTime(a.time, b.time)).map(({ time: _time, ...item }) => item);
+}
@@ -0,0 +1,612 @@
+// src/locations.ts
+import { normalizeText } from "./completion.js";
+import { Event } from "./schemas.js";
+
+// Offline country, region and city normalization, so "USA", "United States" and
+// "US" are one country and "Europe" can be asked for. Countries are ISO 3166-1,
+// grouped by UN M49 subregion; continents follow the subregions, with the
+// Caribbean and Central America counted as North America. Cities come from a small
+// gazetteer of major cities with their coordinates (see geo.ts).
+
+export const CONTINENTS = ["Africa", "Asia", "Europe", "North America", "South America", "Oceania"] as const;
+export type Continent = typeof CONTINENTS[number];
+
+// Subregion => continent and countries ("<alpha-2> <alpha-3> <name>")
+const SUBREGIONS: Record<string, { continent: Continent; countries: string[] }> = {
+  "Northern Africa": {
+    continent: "Africa",
+    countries: ["DZ DZA Algeria", "EG EGY Egypt", "LY LBY Libya", "MA MAR Morocco", "SD SDN Sudan", "TN TUN Tunisia", "EH ESH Western Sahara"]
+  },
+  "Eastern Africa": {
+    continent: "Africa",
+    countries: [
+      "BI BDI Burundi", "KM COM Comoros", "DJ DJI Djibouti", "ER ERI Eritrea", "ET ETH Ethiopia", "KE KEN Kenya",
+      "MG MDG Madagascar", "MW MWI Malawi", "MU MUS Mauritius", "YT MYT Mayotte", "MZ MOZ Mozambique", "RE REU Réunion",
+      "RW RWA Rwanda", "SC SYC Seychelles", "SO SOM Somalia", "SS SSD South Sudan", "UG UGA Uganda", "TZ TZA Tanzania",
+      "ZM ZMB Zambia", "ZW ZWE Zimbabwe"
+    ]
+  },
+  "Middle Africa": {
+    continent: "Africa",
+    countries: [
+      "AO AGO Angola", "CM CMR Cameroon", "CF CAF Central African Republic", "TD TCD Chad", "CG COG Congo",
+      "CD COD Democratic Republic of the Congo", "GQ GNQ Equatorial Guinea", "GA GAB Gabon", "ST STP Sao Tome and Principe"
+    ]
+  },
+  "Southern Africa": {
+    continent: "Africa",
+    countries: ["BW BWA Botswana", "SZ SWZ Eswatini", "LS LSO Lesotho", "NA NAM Namibia", "ZA ZAF South Africa"]
+  },
+  "Western Africa": {
+    continent: "Africa",
+    countries: [
+      "BJ BEN Benin", "BF BFA Burkina Faso", "CV CPV Cabo Verde", "CI CIV Côte d'Ivoire", "GM GMB Gambia", "GH GHA Ghana",
+      "GN GIN Guinea", "GW GNB Guinea-Bissau", "LR LBR Liberia", "ML MLI Mali", "MR MRT Mauritania", "NE NER Niger",
+      "NG NGA Nigeria", "SH SHN Saint Helena", "SN SEN Senegal", "SL SLE Sierra Leone", "TG TGO Togo"
+    ]
+  },
+  "Northern America": {
+    continent: "North America",
+    countries: ["BM BMU Bermuda", "CA CAN Canada", "GL GRL Greenland", "PM SPM Saint Pierre and Miquelon", "US USA United States"]
+  },
+  "Caribbean": {
+    continent: "North America",
+    countries: [
+      "AI AIA Anguilla", "AG ATG Antigua and Barbuda", "AW ABW Aruba", "BS BHS Bahamas", "BB BRB Barbados",
+      "BQ BES Caribbean Netherlands", "VG VGB British Virgin Islands", "KY CYM Cayman Islands", "CU CUB Cuba", "CW CUW Curaçao",
+      "DM DMA Dominica", "DO DOM Dominican Republic", "GD GRD Grenada", "GP GLP Guadeloupe", "HT HTI Haiti", "JM JAM Jamaica",
+      "MQ MTQ Martinique", "MS MSR Montserrat", "PR PRI Puerto Rico", "BL BLM Saint Barthélemy", "KN KNA Saint Kitts and Nevis",
+      "LC LCA Saint Lucia", "MF MAF Saint Martin", "VC VCT Saint Vincent and the Grenadines", "SX SXM Sint Maarten",
+      "TT TTO Trinidad and Tobago", "TC TCA Turks and Caicos Islands", "VI VIR U.S. Virgin Islands"
+    ]
+  },
+  "Central America": {
+    continent: "North America",
+    countries: [
+      "BZ BLZ Belize", "CR CRI Costa Rica", "SV SLV El Salvador", "GT GTM Guatemala", "HN HND Honduras", "MX MEX Mexico",
+      "NI NIC Nicaragua", "PA PAN Panama"
+    ]
+  },
+  "South America": {
+    continent: "South America",
+    countries: [
+      "AR ARG Argentina", "BO BOL Bolivia", "BR BRA Brazil", "CL CHL Chile", "CO COL Colombia", "EC ECU Ecuador",
+      "FK FLK Falkland Islands", "GF GUF French Guiana", "GY GUY Guyana", "PY PRY Paraguay", "PE PER Peru", "SR SUR Suriname",
+      "UY URY Uruguay", "VE VEN Venezuela"
+    ]
+  },
+  "Central Asia": {
+    continent: "Asia",
+    countries: ["KZ KAZ Kazakhstan", "KG KGZ Kyrgyzstan", "TJ TJK Tajikistan", "TM TKM Turkmenistan", "UZ UZB Uzbekistan"]
+  },
+  "Eastern Asia": {
+    continent: "Asia",
+    countries: [
+      "CN CHN China", "HK HKG Hong Kong", "MO MAC Macao", "KP PRK North Korea", "JP JPN Japan", "MN MNG Mongolia",
+      "KR KOR South Korea", "TW TWN Taiwan"
+    ]
+  },
+  "South-eastern Asia": {
+    continent: "Asia",
+    countries: [
+      "BN BRN Brunei", "KH KHM Cambodia", "ID IDN Indonesia", "LA LAO Laos", "MY MYS Malaysia", "MM MMR Myanmar",
+      "PH PHL Philippines", "SG SGP Singapore", "TH THA Thailand", "TL TLS Timor-Leste", "VN VNM Vietnam"
+    ]
+  },
+  "Southern Asia": {
+    continent: "Asia",
+    countries: [
+      "AF AFG Afghanistan", "BD BGD Bangladesh", "BT BTN Bhutan", "IN IND India", "IR IRN Iran", "MV MDV Maldives",
+      "NP NPL Nepal", "PK PAK Pakistan", "LK LKA Sri Lanka"
+    ]
+  },
+  "Western Asia": {
+    continent: "Asia",
+    countries: [
+      "AM ARM Armenia", "AZ AZE Azerbaijan", "BH BHR Bahrain", "CY CYP Cyprus", "GE GEO Georgia", "IQ IRQ Iraq",
+      "IL ISR Israel", "JO JOR Jordan", "KW KWT Kuwait", "LB LBN Lebanon", "OM OMN Oman", "QA QAT Qatar",
+      "SA SAU Saudi Arabia", "PS PSE Palestine", "SY SYR Syria", "TR TUR Türkiye", "AE ARE United Arab Emirates", "YE YEM Yemen"
+    ]
+  },
+  "Eastern Europe": {
+    continent: "Europe",
+    countries: [
+      "BY BLR Belarus", "BG BGR Bulgaria", "CZ CZE Czechia", "HU HUN Hungary", "MD MDA Moldova", "PL POL Poland",
+      "RO ROU Romania", "RU RUS Russia", "SK SVK Slovakia", "UA UKR Ukraine"
+    ]
+  },
+  "Northern Europe": {
+    continent: "Europe",
+    countries: [
+      "AX ALA Åland Islands", "DK DNK Denmark", "EE EST Estonia", "FO FRO Faroe Islands", "FI FIN Finland", "GG GGY Guernsey",
+      "IS ISL Iceland", "IE IRL Ireland", "IM IMN Isle of Man", "JE JEY Jersey", "LV LVA Latvia", "LT LTU Lithuania",
+      "NO NOR Norway", "SJ SJM Svalbard and Jan Mayen", "SE SWE Sweden", "GB GBR United Kingdom"
+    ]
+  },
+  "Southern Europe": {
+    continent: "Europe",
+    countries: [
+      "AL ALB Albania", "AD AND Andorra", "BA BIH Bosnia and Herzegovina", "HR HRV Croatia", "GI GIB Gibraltar",
+      "GR GRC Greece", "VA VAT Holy See", "IT ITA Italy", "MT MLT Malta", "ME MNE Montenegro", "MK MKD North Macedonia",
+      "PT PRT Portugal", "SM SMR San Marino", "RS SRB Serbia", "SI SVN Slovenia", "ES ESP Spain"
+    ]
+  },
+  "Western Europe": {
+    continent: "Europe",
+    countries: [
+      "AT AUT Austria", "BE BEL Belgium", "FR FRA France", "DE DEU Germany", "LI LIE Liechtenstein", "LU LUX Luxembourg",
+      "MC MCO Monaco", "NL NLD Netherlands", "CH CHE Switzerland"
+    ]
+  },
+  "Australia and New Zealand": {
+    continent: "Oceania",
+    countries: ["AU AUS Australia", "NZ NZL New Zealand", "NF NFK Norfolk Island"]
+  },
+  "Melanesia": {
+    continent: "Oceania",
+    countries: ["FJ FJI Fiji", "NC NCL New Caledonia", "PG PNG Papua New Guinea", "SB SLB Solomon Islands", "VU VUT Vanuatu"]
+  },
+  "Micronesia": {
+    continent: "Oceania",
+    countries: [
+      "GU GUM Guam", "KI KIR Kiribati", "MH MHL Marshall Islands", "FM FSM Micronesia", "NR NRU Nauru",
+      "MP MNP Northern Mariana Islands", "PW PLW Palau"
+    ]
+  },
+  "Polynesia": {
+    continent: "Oceania",
+    countries: [
+      "AS ASM American Samoa", "CK COK Cook Islands", "PF PYF French Polynesia", "NU NIU Niue", "PN PCN Pitcairn",
+      "WS WSM Samoa", "TK TKL Tokelau", "TO TON Tonga", "TV TUV Tuvalu", "WF WLF Wallis and Futuna"
+    ]
+  }
+};
+
+// Other names in common use, besides the codes and the names above
+const COUNTRY_ALIASES: Record<string, string[]> = {
+  US: ["United States of America", "U.S.", "U.S.A."],
+  GB: ["UK", "U.K.", "Great Britain", "Britain", "England", "Scotland", "Wales", "Northern Ireland"],
+  AE: ["UAE", "U.A.E.", "Emirates"],
+  KR: ["Korea", "Republic of Korea"],
+  KP: ["DPRK"],
+  CN: ["PRC", "People's Republic of China", "Mainland China"],
+  TW: ["Chinese Taipei"],
+  HK: ["Hong Kong SAR"],
+  MO: ["Macau"],
+  CZ: ["Czech Republic"],
+  TR: ["Turkey"],
+  NL: ["Holland"],
+  RU: ["Russian Federation"],
+  VN: ["Viet Nam"],
+  CI: ["Ivory Coast"],
+  CV: ["Cape Verde"],
+  SZ: ["Swaziland"],
+  MK: ["Macedonia"],
+  MM: ["Burma"],
+  CD: ["DRC", "DR Congo", "Congo-Kinshasa"],
+  CG: ["Republic of the Congo", "Congo-Brazzaville"],
+  TL: ["East Timor"],
+  VA: ["Vatican", "Vatican City"],
+  PS: ["Palestinian Territories"],
+  IR: ["Islamic Republic of Iran"],
+  SY: ["Syrian Arab Republic"],
+  LA: ["Lao PDR"],
+  BN: ["Brunei Darussalam"],
+  MD: ["Republic of Moldova"],
+  TZ: ["United Republic of Tanzania"],
+  FM: ["Federated States of Micronesia"],
+  SA: ["KSA"],
+  DE: ["Deutschland"],
+  ES: ["España"],
+  CH: ["Schweiz", "Suisse"],
+  AT: ["Österreich"]
+};
+
+// Groupings that cut across subregions
+const GROUPS: Record<string, { aliases: string[]; countries: string[] }> = {
+  "European Union": {
+    aliases: ["EU"],
+    countries: ["AT", "BE", "BG", "HR", "CY", "CZ", "DK", "EE", "FI", "FR", "DE", "GR", "HU", "IE", "IT", "LV", "LT", "LU", "MT", "NL", "PL", "PT", "RO", "SK", "SI", "ES", "SE"]
+  },
+  "Middle East": {
+    aliases: [],
+    countries: ["AE", "BH", "EG", "IL", "IQ", "IR", "JO", "KW", "LB", "OM", "PS", "QA", "SA", "SY", "TR", "YE"]
+  },
+  "MENA": {
+    aliases: ["Middle East and North Africa"],
+    countries: ["AE", "BH", "EG", "IL", "IQ", "IR", "JO", "KW", "LB", "OM", "PS", "QA", "SA", "SY", "TR", "YE", "DZ", "LY", "MA", "TN"]
+  },
+  "GCC": {
+    aliases: ["Gulf", "Gulf States", "Gulf Cooperation Council"],
+    countries: ["AE", "BH", "KW", "OM", "QA", "SA"]
+  },
+  "DACH": {
+    aliases: [],
+    countries: ["DE", "AT", "CH"]
+  },
+  "Nordics": {
+    aliases: ["Nordic", "Nordic Countries"],
+    countries: ["DK", "FI", "IS", "NO", "SE", "FO", "AX"]
+  },
+  "Benelux": {
+    aliases: [],
+    countries: ["BE", "NL", "LU"]
+  }
+};
+
+// Regions made of whole subregions or continents
+const COMPOSITES: Record<string, { aliases: string[]; subregions: string[] }> = {
+  "Americas": { aliases: ["America", "The Americas"], subregions: ["Northern America", "Caribbean", "Central America", "South America"] },
+  "Latin America": { aliases: ["LATAM", "LatAm"], subregions: ["Caribbean", "Central America", "South America"] },
+  "Sub-Saharan Africa": { aliases: ["Subsaharan Africa"], subregions: ["Eastern Africa", "Middle Africa", "Southern Africa", "Western Africa"] },
+  "APAC": {
+    aliases: ["Asia Pacific", "Asia-Pacific"],
+    subregions: ["Eastern Asia", "South-eastern Asia", "Southern Asia", "Australia and New Zealand", "Melanesia", "Micronesia", "Polynesia"]
+  }
+};
+
+const SUBREGION_ALIASES: Record<string, string[]> = {
+  "South-eastern Asia": ["Southeast Asia", "South East Asia", "SEA"],
+  "Eastern Asia": ["East Asia"],
+  "Southern Asia": ["South Asia"],
+  "Western Asia": ["West Asia"],
+  "Northern Africa": ["North Africa"],
+  "Western Africa": ["West Africa"],
+  "Eastern Africa": ["East Africa"],
+  "Northern America": [],
+  "Northern Europe": [],
+  "Western Europe": [],
+  "Eastern Europe": [],
+  "Southern Europe": []
+};
+
+// Gazetteer of major cities: country, coordinates (decimal degrees) and the names
+// they are often written as. Each city belongs to one country.
+const CITIES: Array<[name: string, country: string, latitude: number, longitude: number, ...aliases: string[]]> = [
+  // North America
+  ["New York", "US", 40.71, -74.01, "NYC", "New York City", "Manhattan", "Brooklyn"],
+  ["San Francisco", "US", 37.77, -122.42, "SF", "San Fran", "Bay Area"],
+  ["Palo Alto", "US", 37.44, -122.14],
+  ["San Jose", "US", 37.34, -121.89],
+  ["Los Angeles", "US", 34.05, -118.24, "LA"],
+  ["San Diego", "US", 32.72, -117.16],
+  ["Washington", "US", 38.91, -77.04, "Washington DC", "Washington D.C.", "DC"],
+  ["Philadelphia", "US", 39.95, -75.17],
+  ["Boston", "US", 42.36, -71.06],
+  ["Miami", "US", 25.76, -80.19],
+  ["Atlanta", "US", 33.75, -84.39],
+  ["Nashville", "US", 36.16, -86.78],
+  ["Chicago", "US", 41.88, -87.63],
+  ["Austin", "US", 30.27, -97.74],
+  ["Dallas", "US", 32.78, -96.80],
+  ["Houston", "US", 29.76, -95.37],
+  ["Denver", "US", 39.74, -104.99],
+  ["Salt Lake City", "US", 40.76, -111.89],
+  ["Phoenix", "US", 33.45, -112.07],
+  ["Las Vegas", "US", 36.17, -115.14, "Vegas"],
+  ["Seattle", "US", 47.61, -122.33],
+  ["Toronto", "CA", 43.65, -79.38],
+  ["Montreal", "CA", 45.50, -73.57, "Montréal"],
+  ["Ottawa", "CA", 45.42, -75.70],
+  ["Calgary", "CA", 51.05, -114.07],
+  ["Vancouver", "CA", 49.28, -123.12],
+  ["Mexico City", "MX", 19.43, -99.13, "CDMX", "Ciudad de México"],
+  ["Guadalajara", "MX", 20.66, -103.35],
+  ["Cancún", "MX", 21.16, -86.85],
+  ["Panama City", "PA", 8.98, -79.52],
+  ["San Salvador", "SV", 13.69, -89.22],
+  // South America
+  ["São Paulo", "BR", -23.55, -46.63, "Sao Paulo"],
+  ["Rio de Janeiro", "BR", -22.91, -43.17, "Rio"],
+  ["Buenos Aires", "AR", -34.60, -58.38],
+  ["Montevideo", "UY", -34.90, -56.16],
+  ["Santiago", "CL", -33.45, -70.67, "Santiago de Chile"],
+  ["Lima", "PE", -12.05, -77.04],
+  ["Bogotá", "CO", 4.71, -74.07],
+  ["Medellín", "CO", 6.24, -75.58],
+  ["Quito", "EC", -0.18, -78.47],
+  ["Caracas", "VE", 10.48, -66.90],
+  // Europe
+  ["London", "GB", 51.51, -0.13],
+  ["Manchester", "GB", 53.48, -2.24],
+  ["Edinburgh", "GB", 55.95, -3.19],
+  ["Dublin", "IE", 53.35, -6.26],
+  ["Paris", "FR", 48.86, 2.35],
+  ["Nice", "FR", 43.70, 7.27],
+  ["Cannes", "FR", 43.55, 7.02],
+  ["Monaco", "MC", 43.74, 7.42, "Monte Carlo"],
+  ["Berlin", "DE", 52.52, 13.40],
+  ["Hamburg", "DE", 53.55, 9.99],
+  ["Cologne", "DE", 50.94, 6.96, "Köln"],
+  ["Frankfurt", "DE", 50.11, 8.68, "Frankfurt am Main"],
+  ["Munich", "DE", 48.14, 11.58, "München"],
+  ["Zurich", "CH", 47.38, 8.54, "Zürich"],
+  ["Zug", "CH", 47.17, 8.52, "Crypto Valley"],
+  ["Geneva", "CH", 46.20, 6.14, "Genève"],
+  ["Lugano", "CH", 46.00, 8.95],
+  ["Davos", "CH", 46.80, 9.84],
+  ["Vienna", "AT", 48.21, 16.37, "Wien"],
+  ["Amsterdam", "NL", 52.37, 4.90],
+  ["Rotterdam", "NL", 51.92, 4.48],
+  ["Brussels", "BE", 50.85, 4.35, "Bruxelles"],
+  ["Antwerp", "BE", 51.22, 4.40],
+  ["Luxembourg", "LU", 49.61, 6.13, "Luxembourg City"],
+  ["Lisbon", "PT", 38.72, -9.14, "Lisboa"],
+  ["Porto", "PT", 41.15, -8.61, "Oporto"],
+  ["Madrid", "ES", 40.42, -3.70],
+  ["Barcelona", "ES", 41.39, 2.17],
+  ["Valencia", "ES", 39.47, -0.38],
+  ["Málaga", "ES", 36.72, -4.42],
+  ["Gibraltar", "GI", 36.14, -5.35],
+  ["Rome", "IT", 41.90, 12.50, "Roma"],
+  ["Milan", "IT", 45.46, 9.19, "Milano"],
+  ["Florence", "IT", 43.77, 11.26, "Firenze"],
+  ["Valletta", "MT", 35.90, 14.51],
+  ["Athens", "GR", 37.98, 23.73],
+  ["Nicosia", "CY", 35.19, 33.38],
+  ["Limassol", "CY", 34.71, 33.02],
+  ["Prague", "CZ", 50.08, 14.44, "Praha"],
+  ["Bratislava", "SK", 48.15, 17.11],
+  ["Warsaw", "PL", 52.23, 21.01, "Warszawa"],
+  ["Kraków", "PL", 50.06, 19.94, "Krakow", "Cracow"],
+  ["Budapest", "HU", 47.50, 19.04],
+  ["Bucharest", "RO", 44.43, 26.10],
+  ["Sofia", "BG", 42.70, 23.32],
+  ["Belgrade", "RS", 44.79, 20.45],
+  ["Zagreb", "HR", 45.81, 15.98],
+  ["Ljubljana", "SI", 46.06, 14.51],
+  ["Kyiv", "UA", 50.45, 30.52, "Kiev"],
+  ["Moscow", "RU", 55.76, 37.62],
+  ["Vilnius", "LT", 54.69, 25.28],
+  ["Riga", "LV", 56.95, 24.11],
+  ["Tallinn", "EE", 59.44, 24.75],
+  ["Helsinki", "FI", 60.17, 24.94],
+  ["Stockholm", "SE", 59.33, 18.07],
+  ["Oslo", "NO", 59.91, 10.75],
+  ["Copenhagen", "DK", 55.68, 12.57],
+  ["Reykjavík", "IS", 64.15, -21.94, "Reykjavik"],
+  ["Istanbul", "TR", 41.01, 28.98],
+  ["Tbilisi", "GE", 41.72, 44.79],
+  ["Yerevan", "AM", 40.18, 44.51],
+  ["Baku", "AZ", 40.41, 49.87],
+  // Middle East and Africa
+  ["Dubai", "AE", 25.20, 55.27],
+  ["Abu Dhabi", "AE", 24.45, 54.38],
+  ["Riyadh", "SA", 24.71, 46.68],
+  ["Jeddah", "SA", 21.49, 39.19],
+  ["Doha", "QA", 25.29, 51.53],
+  ["Manama", "BH", 26.23, 50.59],
+  ["Kuwait City", "KW", 29.38, 47.99],
+  ["Muscat", "OM", 23.59, 58.41],
+  ["Tel Aviv", "IL", 32.09, 34.78, "Tel Aviv-Yafo"],
+  ["Jerusalem", "IL", 31.77, 35.21],
+  ["Amman", "JO", 31.95, 35.93],
+  ["Beirut", "LB", 33.89, 35.50],
+  ["Cairo", "EG", 30.04, 31.24],
+  ["Casablanca", "MA", 33.57, -7.59],
+  ["Marrakesh", "MA", 31.63, -7.99, "Marrakech"],
+  ["Tunis", "TN", 36.81, 10.18],
+  ["Dakar", "SN", 14.72, -17.47],
+  ["Accra", "GH", 5.60, -0.19],
+  ["Lagos", "NG", 6.52, 3.38],
+  ["Abuja", "NG", 9.08, 7.40],
+  ["Addis Ababa", "ET", 9.03, 38.74],
+  ["Nairobi", "KE", -1.29, 36.82],
+  ["Kampala", "UG", 0.35, 32.58],
+  ["Kigali", "RW", -1.95, 30.06],
+  ["Dar es Salaam", "TZ", -6.79, 39.21],
+  ["Johannesburg", "ZA", -26.20, 28.05, "Joburg"],
+  ["Cape Town", "ZA", -33.92, 18.42],
+  // Asia
+  ["Mumbai", "IN", 19.08, 72.88, "Bombay"],
+  ["Pune", "IN", 18.52, 73.86],
+  ["Bengaluru", "IN", 12.97, 77.59, "Bangalore"],
+  ["Hyderabad", "IN", 17.39, 78.49],
+  ["Chennai", "IN", 13.08, 80.27, "Madras"],
+  ["New Delhi", "IN", 28.61, 77.21, "Delhi"],
+  ["Karachi", "PK", 24.86, 67.00],
+  ["Lahore", "PK", 31.55, 74.34],
+  ["Dhaka", "BD", 23.81, 90.41],
+  ["Colombo", "LK", 6.93, 79.86],
+  ["Kathmandu", "NP", 27.72, 85.32],
+  ["Almaty", "KZ", 43.24, 76.89],
+  ["Astana", "KZ", 51.17, 71.45],
+  ["Tashkent", "UZ", 41.30, 69.24],
+  ["Singapore", "SG", 1.35, 103.82],
+  ["Kuala Lumpur", "MY", 3.14, 101.69, "KL"],
+  ["Bangkok", "TH", 13.76, 100.50],
+  ["Chiang Mai", "TH", 18.79, 98.99],
+  ["Phuket", "TH", 7.88, 98.39],
+  ["Jakarta", "ID", -6.21, 106.85],
+  ["Denpasar", "ID", -8.65, 115.22, "Bali"],
+  ["Ho Chi Minh City", "VN", 10.82, 106.63, "Saigon", "HCMC"],
+  ["Da Nang", "VN", 16.05, 108.20],
+  ["Hanoi", "VN", 21.03, 105.85],
+  ["Phnom Penh", "KH", 11.56, 104.92],
+  ["Manila", "PH", 14.60, 120.98],
+  ["Hong Kong", "HK", 22.32, 114.17],
+  ["Macau", "MO", 22.20, 113.54, "Macao"],
+  ["Shenzhen", "CN", 22.54, 114.06],
+  ["Guangzhou", "CN", 23.13, 113.26],
+  ["Shanghai", "CN", 31.23, 121.47],
+  ["Hangzhou", "CN", 30.27, 120.16],
+  ["Beijing", "CN", 39.90, 116.41, "Peking"],
+  ["Taipei", "TW", 25.03, 121.57],
+  ["Seoul", "KR", 37.57, 126.98],
+  ["Busan", "KR", 35.18, 129.08],
+  ["Tokyo", "JP", 35.68, 139.69],
+  ["Kyoto", "JP", 35.01, 135.77],
+  ["Osaka", "JP", 34.69, 135.50],
+  ["Ulaanbaatar", "MN", 47.89, 106.91],
+  // Oceania
+  ["Sydney", "AU", -33.87, 151.21],
+  ["Melbourne", "AU", -37.81, 144.96],
+  ["Brisbane", "AU", -27.47, 153.03],
+  ["Perth", "AU", -31.95, 115.86],
+  ["Auckland", "NZ", -36.85, 174.76],
+  ["Wellington", "NZ", -41.29, 174.78]
+];
+
+export interface Country {
+  code: string;
+  alpha3: string;
+  name: string;
+  subregion: string;
+  continent: Continent;
+}
+
+export interface Region {
+  name: string;
+  countries: ReadonlySet<string>;
+}
+
+export interface City {
+  name: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+}
+
+export class LocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LocationError";
+  }
+}
+
+// Lookup key: accents, case, dots, apostrophes and a leading "the" do not matter
+function locationKey(value: string): string {
+  return normalizeText(value).replace(/[.'’]/g, "").replace(/[^a-z0-9]+/g, " ").trim().replace(/^the /, "");
+}
+
+const countries = new Map<string, Country>();
+const countriesByKey = new Map<string, Country>();
+for (const [subregion, { continent, countries: entries }] of Object.entries(SUBREGIONS)) {
+  for (const entry of entries) {
+    const country: Country = { code: entry.slice(0, 2), alpha3: entry.slice(3, 6), name: entry.slice(7), subregion, continent };
+    countries.set(country.code, country);
+    for (const name of [country.code, country.alpha3, country.name, ...(COUNTRY_ALIASES[country.code] ?? [])]) {
+      countriesByKey.set(locationKey(name), country);
+    }
+  }
+}
+
+const regions = new Map<string, Region>();
+const regionsByKey = new Map<string, Region>();
+const addRegion = (name: string, aliases: string[], codes: Iterable<string>) => {
+  const region: Region = { name, countries: new Set(codes) };
+  regions.set(name, region);
+  for (const alias of [name, ...aliases]) regionsByKey.set(locationKey(alias), region);
+};
+const codesIn = (subregions: string[]) => subregions.flatMap(subregion => SUBREGIONS[subregion]!.countries.map(entry => entry.slice(0, 2)));
+
+for (const continent of CONTINENTS) {
+  addRegion(continent, [], [...countries.values()].filter(country => country.continent === continent).map(country => country.code));
+}
+for (const [name, aliases] of Object.entries(SUBREGION_ALIASES)) addRegion(name, aliases, codesIn([name]));
+for (const [name, { aliases, subregions }] of Object.entries(COMPOSITES)) addRegion(name, aliases, codesIn(subregions));
+for (const [name, { aliases, countries: codes }] of Object.entries(GROUPS)) addRegion(name, aliases, codes);
+
+const citiesByKey = new Map<string, City>();
+for (const [name, country, latitude, longitude, ...aliases] of CITIES) {
+  const city: City = { name, country, latitude, longitude };
+  for (const alias of [name, ...aliases]) citiesByKey.set(locationKey(alias), city);
+}
+
+export const REGION_NAMES = [...regions.keys()];
+
+// By ISO alpha-2 or alpha-3 code, name or alias
+export function findCountry(value: string): Country | undefined {
+  return countriesByKey.get(locationKey(value));
+}
+
+export function countryByCode(code: string): Country | undefined {
+  return countries.get(code);
+}
+
+// A continent, subregion ("Southeast Asia") or grouping ("EU", "Middle East", "LATAM")
+export function findRegion(value: string): Region | undefined {
+  return regionsByKey.get(locationKey(value));
+}
+
+export function findCity(value: string): City | undefined {
+  return citiesByKey.get(locationKey(value));
+}
+
+export interface NormalizedLocation {
+  city: string | null;
+  country: string | null;
+  country_code: string | null;
+  continent: Continent | null;
+}
+
+// Cached per distinct (country, city) pair; events repeat the same few places
+const normalized = new Map<string, NormalizedLocation>();
+
+// Canonical names for a free-text country and city. A known city supplies the
+// country when the country is missing; unknown names are kept as given (trimmed).
+export function normalizeLocation(countryText: string, cityText: string): NormalizedLocation {
+  const cacheKey = `${countryText}\u0000${cityText}`;
+  const cached = normalized.get(cacheKey);
+  if (cached) return cached;
+
+  const city = cityText.trim() ? findCity(cityText) : undefined;
+  const country = (countryText.trim() ? findCountry(countryText) : undefined) ?? (city && countryByCode(city.country));
+  const location: NormalizedLocation = {
+    city: city && (!country || city.country === country.code) ? city.name : cityText.trim() || null,
+    country: country?.name ?? (countryText.trim() || null),
+    country_code: country?.code ?? null,
+    continent: country?.continent ?? null
+  };
+  normalized.set(cacheKey, location);
+  return location;
+}
+
+export const eventLocation = (event: Event) => normalizeLocation(event.country, event.city);
+
+export interface LocationFilter {
+  country?: string | undefined;
+  city?: string | undefined;
+  region?: string | undefined;
+}
+
+// A predicate over events for the given country, city and region, comparing
+// normalized names. Unknown countries are compared as text and unknown cities as
+// part of the city name ("York" finds "New York"); an unknown region is an error,
+// since there is nothing to compare it with.
+export function locationMatcher(filter: LocationFilter): (event: Event) => boolean {
+  const region = filter.region ? findRegion(filter.region) : undefined;
+  if (filter.region && !region) {
+    throw new LocationError(`Unknown region "${filter.region}". Known regions: ${REGION_NAMES.join(", ")}`);
+  }
+  const country = filter.country ? findCountry(filter.country) : undefined;
+  const countryKey = filter.country && locationKey(filter.country);
+  const city = filter.city ? findCity(filter.city) : undefined;
+  const cityKey = filter.city && locationKey(city?.name ?? filter.city);
+
+  return event => {
+    const location = eventLocation(event);
+    if (region && !(location.country_code && region.countries.has(location.country_code))) return false;
+    if (country ? location.country_code !== country.code : countryKey && locationKey(location.country ?? "") !== countryKey) return false;
+    if (cityKey) {
+      const eventCity = locationKey(location.city ?? "");
+      if (city ? eventCity !== cityKey : !eventCity.includes(cityKey)) return false;
+    }
+    return true;
+  };
+}
+
+// One free-text place, as given to prompts: a country, then a region, then a city.
+// A short form that is both a city alias and a country code ("LA") means the city.
+// Anything else matches part of the city or country name.
+export function placeMatcher(place: string): (event: Event) => boolean {
+  const country = findCountry(place);
+  if (country && !(findCity(place) && locationKey(place).length <= 3)) return locationMatcher({ country: place });
+  if (findRegion(place)) return locationMatcher({ region: place });
+  if (findCity(place)) return locationMatcher({ city: place });
+  const key = locationKey(place);
+  return event => {
+    const location = eventLocation(event);
+    return [location.city, location.country].some(name => locationKey(name ?? "").includes(key));
+  };
+}
@@ -0,0 +1,151 @@
+// src/pagination.ts
+import { createHash } from "node:crypto";
+import { UriTemplate, Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { z } from "zod";
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+// Input fields shared by every list-returning tool
+export const pageArgs = {
+  cursor: z.string().optional().describe("Opaque next_cursor value from a previous call with the same filters, to fetch the next page"),
+  page_size: z.number().int().positive().max(MAX_PAGE_SIZE).optional().describe(`Results per page (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})`)
+};
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  offset: number;
+  page_size: number;
+  next_cursor: string | null;
+}
+
+export interface PageRequest {
+  cursor?: string;
+  pageSize?: number;
+}
+
+interface CursorState {
+  o: number; // offset of the next item
+  s: number; // page size
+  f: string; // fingerprint of the full result list
+}
+
+export class CursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CursorError";
+  }
+}
+
+// Identifies one ordering of one result set. Cursors only resume the list they
+// were issued for, so a refetch that changes the data invalidates old cursors.
+function fingerprint(ids: string[]): string {
+  return createHash("sha1").update(ids.join("\n")).digest("base64url").slice(0, 16);
+}
+
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): CursorState {
+  try {
+    const state = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Number.isInteger(state.o) && state.o >= 0 && Number.isInteger(state.s) && typeof state.f === "string") {
+      return state;
+    }
+  } catch {
+    // fall through
+  }
+  throw new CursorError(`Invalid cursor: ${cursor}`);
+}
+
+export function resolvePageSize(requested?: number): number {
+  if (requested === undefined || !Number.isFinite(requested)) return DEFAULT_PAGE_SIZE;
+  return Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(requested)));
+}
+
+export function paginate<T>(items: T[], idOf: (item: T) => string, request: PageRequest = {}): Page<T> {
+  const current = fingerprint(items.map(idOf));
+  let offset = 0;
+  let pageSize = resolvePageSize(request.pageSize);
+
+  if (request.cursor) {
+    const state = decodeCursor(request.cursor);
+    if (state.f !== current) {
+      throw new CursorError("Cursor is no longer valid because the underlying data changed; repeat the request without a cursor");
+    }
+    offset = state.o;
+    if (request.pageSize === undefined) pageSize = resolvePageSize(state.s);
+  }
+
+  const end = offset + pageSize;
+  return {
+    items: items.slice(offset, end),
+    total: items.length,
+    offset,
+    page_size: pageSize,
+    next_cursor: end < items.length ? encodeCursor({ o: end, s: pageSize, f: current }) : null
+  };
+}
+
+export const paginationSchema = z.object({
+  total: z.number().int().describe("Results across all pages"),
+  offset: z.number().int(),
+  page_size: z.number().int(),
+  returned: z.number().int(),
+  next_cursor: z.string().nullable().describe("Pass as cursor to fetch the next page; null on the last page")
+});
+
+export function paginationInfo<T>(page: Page<T>): z.infer<typeof paginationSchema> {
+  return {
+    total: page.total,
+    offset: page.offset,
+    page_size: page.page_size,
+    returned: page.items.length,
+    next_cursor: page.next_cursor
+  };
+}
+
+export function describePage<T>(page: Page<T>): string {
+  if (page.items.length === 0) return "";
+  const range = `Showing ${page.offset + 1}-${page.offset + page.items.length}`;
+  return page.next_cursor
+    ? `${range}; call again with cursor "${page.next_cursor}" for the next page.`
+    : `${range}.`;
+}
+
+// Matches `base` with any subset of the given query parameters, in any order
+export class QueryUriTemplate extends UriTemplate {
+  constructor(private base: string, private params: string[]) {
+    super(`${base}{?${params.join(",")}}`);
+  }
+
+  override match(uri: string): Variables | null {
+    const queryStart = uri.indexOf("?");
+    const path = queryStart === -1 ? uri : uri.slice(0, queryStart);
+    if (path !== this.base) return null;
+
+    const query = new URLSearchParams(queryStart === -1 ? "" : uri.slice(queryStart + 1));
+    const variables: Variables = {};
+    for (const name of this.params) {
+      const value = query.get(name);
+      if (value !== null) variables[name] = value;
+    }
+    return variables;
+  }
+
+  pageUri(cursor: string | null): string | null {
+    return cursor === null ? null : this.expand({ cursor });
+  }
+}
+
+export function pageRequestFrom(variables: Variables): PageRequest {
+  const first = (value: string | string[] | undefined) => Array.isArray(value) ? value[0] : value;
+  const cursor = first(variables.cursor);
+  const pageSize = first(variables.page_size);
+  return {
+    ...(cursor && { cursor }),
+    ...(pageSize && { pageSize: Number(pageSize) })
+  };
+}
@@ -0,0 +1,473 @@
+// src/prompts.ts
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AccessGuard } from "./auth.js";
+import { BlockzaAPIClient, Event } from "./client.js";
+import { createCompleters, optionalCompletable } from "./completion.js";
+import { eventStatus, filterEventDates } from "./events.js";
+import { placeMatcher } from "./locations.js";
+import { describeCandidates } from "./resolver.js";
+import { rankCompanies, ScoringSettings } from "./scoring.js";
+import { eventSearchFields, searchItems } from "./search.js";
+import { describeTimeframe, parseTimeframe } from "./timeframe.js";
+
+export function registerPrompts(server: McpServer, apiClient: BlockzaAPIClient, allowed: AccessGuard, scoring: ScoringSettings) {
+  const complete = createCompleters(apiClient);
+
+  if (allowed("prompts", "analyze_company")) server.registerPrompt(
+    "analyze_company",
+    {
+      title: "Analyze Company",
+      description: "Generate a comprehensive analysis of a company in the directory",
+      argsSchema: {
+        company_slug: completable(z.string(), complete.companySlugs).describe("The slug of the company to analyze")
+      }
+    },
+    async ({ company_slug }) => {
+      if (!company_slug) {
+        return {
+          messages: [{
+            role: "user",
+            content: {
+              type: "text",
+              text: "Please provide a company slug to analyze."
+            }
+          }]
+        };
+      }
+
+      const resolution = await apiClient.resolveCompany(company_slug);
+
+      if (resolution.status === "ambiguous") {
+        return {
+          messages: [{
+            role: "user",
+            content: {
+              type: "text",
+              text: `I asked for an analysis of "${company_slug}", but it matches several companies in the Blockza directory:
+
+${describeCandidates(resolution)}
+
+Please ask me which of these companies I mean before analyzing anything.`
+            }
+          }]
+        };
+      }
+
+      const company = resolution.match?.company;
+      if (!company) {
+        return {
+          messages: [{
+            role: "user",
+            content: {
+              type: "text",
+              text: `Please provide an analysis template for when a company "${company_slug}" is not found in the directory.`
+            }
+          }]
+        };
+      }
+
+      return {
+        messages: [{
+          role: "user",
+          content: {
+            type: "text",
+            text: `Please analyze the following company from the Blockza directory:
+
+Company: ${company.name}
+Category: ${company.category}
+Verification Status: ${company.verificationStatus}
+Description: ${company.shortDescription}
+
+Detailed Information:
+${company.detail}
+
+Founder: ${company.founderName}
+Founder Details: ${company.founderDetails}
+
+Social Presence:
+- Website: ${company.url}
+- Twitter: ${company.socialLinks.twitter}
+- LinkedIn: ${company.socialLinks.linkedin}
+- Telegram: ${company.socialLinks.telegram}
+- Facebook: ${company.socialLinks.facebook}
+- YouTube: ${company.socialLinks.youtube}
+
+Business Information:
+- Has Affiliate Program: ${company.promotionSettings.hasAffiliateProgram}
+- Interested in Business Partnerships: ${company.promotionSettings.interestedInBusinessPartnership}
+- Is Promoted: ${company.isPromoted}
+
+Engagement Metrics:
+- Likes: ${company.likes}
+- Views: ${company.views}
+- Founder Followers: ${company.founderFollowers}
+
+Team Size: ${company.teamMembers?.length || 0} members
+
+Please provide a comprehensive analysis covering:
+1. Business overview and market position
+2. Founder background and leadership
+3. Social media presence and engagement
+4. Growth potential and partnership opportunities
+5. Competitive advantages
+6. Any notable observations or recommendations`
+          }
+        }]
+      };
+    }
+  );
+
+  if (allowed("prompts", "compare_companies")) server.registerPrompt(
+    "compare_companies",
+    {
+      title: "Compare Companies",
+      description: "Generate a comparison between companies in the same category",
+      argsSchema: {
+        category: completable(z.string(), complete.companyCategories).describe("Category to compare companies within"),
+        limit: z.string().optional().describe("Number of companies to include in comparison (default: 5)")
+      }
+    },
+    async ({ category, limit = "5" }) => {
+      if (!category) {
+        return {
+          messages: [{
+            role: "user",
+            content: {
+              type: "text",
+              text: "Please provide a category to compare companies within."
+            }
+          }]
+        };
+      }
+
+      const companies = await apiClient.getCompaniesByCategory(category);
+      const numLimit = limit ? parseInt(limit, 10) : 5;
+      const topCompanies = rankCompanies(companies, scoring.companies).slice(0, numLimit);
+
+      if (topCompanies.length === 0) {
+        return {
+          messages: [{
+            role: "user",
+            content: {
+              type: "text",
+              text: `No companies found in category "${category}". Please suggest how to find companies in this category or recommend similar categories.`
+            }
+          }]
+        };
+      }
+
+      const companyData = topCompanies.map(({ item: company, score, scoring: details }) => ({
+        name: company.name,
+        description: company.shortDescription,
+        founder: company.founderName,
+        verification: company.verificationStatus,
+        engagement: { likes: company.likes, views: company.views },
+        hasAffiliateProgram: company.promotionSettings.hasAffiliateProgram,
+        teamSize: company.teamMembers?.length || 0,
+        url: company.url,
+        directoryScore: { score, explanation: details.explanation }
+      }));
+
+      return {
+        messages: [{
+          role: "user",
+          content: {
+            type: "text",
+            text: `Please compare the following ${topCompanies.length} companies in the "${category}" category, listed by directory score (each \`directoryScore\` explains how it was computed):
+
+${JSON.stringify(companyData, null, 2)}
+
+Please provide a detailed comparison covering:
+1. Market positioning and unique value propositions
+2. Founder backgrounds and leadership styles
+3. User engagement and community presence
+4. Business model differences
+5. Partnership and growth opportunities
+6. Competitive advantages and weaknesses
+7. Recommendations for each company's improvement areas
+
+Rank them by overall potential and explain your reasoning.`
+          }
+        }]
+      };
+    }
+  );
+
+  // Events Prompts
+  if (allowed("prompts", "analyze_event")) server.registerPrompt(
+    "analyze_event",
+    {
+      title: "Analyze Event",
+      description: "Generate a comprehensive analysis of an event in the directory",
+      argsSchema: {
+        event_id: completable(z.string(), complete.eventIds).describe("The ID of the event to analyze")
+      }
+    },
+    async ({ event_id }) => {
+      if (!event_id) {
+        return {
+          messages: [{
+            role: "user",
+            content: {
+              type: "text",
+              text: "Please provide an event ID to analyze."
+            }
+          }]
+        };
+      }
+
+      const event = await apiClient.getEventById(event_id);
+
+      if (!event) {
+        return {
+          messages: [{
+            role: "user",
+            content: {
+              type: "text",
+              text: `Please provide an analysis template for when an event "${event_id}" is not found in the directory.`
+            }
+          }]
+        };
+      }
+
+      const startDate = new Date(event.eventStartDate);
+      const endDate = new Date(event.eventEndDate);
+      const status = eventStatus(event);
+
+      return {
+        messages: [{
+          role: "user",
+          content: {
+            type: "text",
+            text: `Please analyze the following event from the Blockza events directory:
+
+Event: ${event.title}
+Organizer: ${event.company}
+Category: ${event.category}
+Status: ${status.charAt(0).toUpperCase()}${status.slice(1)}
+
+Description:
+${event.description}
+
+Location: ${event.location}, ${event.city}, ${event.country}
+Dates: ${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()}
+
+Links:
+- Website: ${event.website}
+- Featured Image: ${event.featuredImage}
+
+Social Media:
+- Twitter: ${event.socialLinks.twitter}
+- LinkedIn: ${event.socialLinks.linkedin}
+- Telegram: ${event.socialLinks.telegram}
+- Instagram: ${event.socialLinks.instagram}
+
+Please provide a comprehensive analysis covering:
+1. Event overview and significance in the Web3 ecosystem
+2. Organizer reputation and track record
+3. Target audience and value proposition
+4. Location and timing analysis
+5. Social media presence and marketing strategy
+6. Potential impact and networking opportunities
+7. Recommendations for attendees or organizers
+8. Market positioning and competitive landscape`
+          }
+        }]
+      };
+    }
+  );
+
+  if (allowed("prompts", "compare_events")) server.registerPrompt(
+    "compare_events",
+    {
+      title: "Compare Events",
+      description: "Generate a comparison between events in the same category or location",
+      argsSchema: {
+        category: optionalCompletable(complete.eventCategories).describe("Category to compare events within"),
+        location: optionalCompletable(complete.eventLocations).describe("Location to compare events within (country, region or city)"),
+        limit: z.string().optional().describe("Number of events to include in comparison (default: 5)")
+      }
+    },
+    async ({ category, location, limit = "5" }) => {
+      if (!category && !location) {
+        return {
+          messages: [{
+            role: "user",
+            content: {
+              type: "text",
+              text: "Please provide either a category or location to compare events within."
+            }
+          }]
+        };
+      }
+
+      let events: Event[] = [];
+      if (category) {
+        events = await apiClient.getEventsByCategory(category);
+      } else if (location) {
+        // A country, region or city, compared by normalized name
+        const allEvents = await apiClient.getEvents();
+        events = allEvents.filter(placeMatcher(location));
+      }
+
+      const numLimit = limit ? parseInt(limit, 10) : 5;
+      const topEvents = [...events]
+        .sort((a, b) => new Date(a.eventStartDate).getTime() - new Date(b.eventStartDate).getTime())
+        .slice(0, numLimit);
+
+      if (topEvents.length === 0) {
+        const filterType = category || location;
+        return {
+          messages: [{
+            role: "user",
+            content: {
+              type: "text",
+              text: `No events found for "${filterType}". Please suggest how to find events in this category/location or recommend similar options.`
+            }
+          }]
+        };
+      }
+
+      const eventData = topEvents.map(event => ({
+        id: event._id,
+        title: event.title,
+        organizer: event.company,
+        category: event.category,
+        location: `${event.city}, ${event.country}`,
+        venue: event.location,
+        dates: {
+          start: event.eventStartDate,
+          end: event.eventEndDate
+        },
+        website: event.website,
+        socialLinks: event.socialLinks
+      }));
+
+      const filterType = category || location;
+      return {
+        messages: [{
+          role: "user",
+          content: {
+            type: "text",
+            text: `Please compare the following ${topEvents.length} events for "${filterType}":
+
+${JSON.stringify(eventData, null, 2)}
+
+Please provide a detailed comparison covering:
+1. Event positioning and unique value propositions
+2. Organizer reputation and expertise
+3. Target audience and attendee benefits
+4. Location advantages and accessibility
+5. Timing and market conditions
+6. Networking and business opportunities
+7. Competitive advantages and potential challenges
+8. Recommendations for attendees and organizers
+
+Rank them by overall value and explain your reasoning.`
+          }
+        }]
+      };
+    }
+  );
+
+  if (allowed("prompts", "event_recommendations")) server.registerPrompt(
+    "event_recommendations",
+    {
+      title: "Event Recommendations",
+      description: "Generate personalized event recommendations based on criteria",
+      argsSchema: {
+        interests: z.string().optional().describe("Areas of interest (e.g., 'DeFi', 'NFTs', 'AI')"),
+        location: optionalCompletable(complete.eventLocations).describe("Preferred location (country, region such as 'Europe', or city)"),
+        timeframe: z.string().optional().describe("Preferred timeframe (e.g., 'next weekend', 'in the next 6 weeks', 'Q1 2027', 'March', '2026-11-01 to 2026-11-15')"),
+        event_type: optionalCompletable(complete.eventCategories).describe("Type of event (e.g., 'Conference', 'Meetup', 'Hackathon')")
+      }
+    },
+    async ({ interests, location, timeframe, event_type }) => {
+      try {
+        // Resolved first, so a phrase the parser does not understand fails before any request
+        const range = timeframe ? parseTimeframe(timeframe) : undefined;
+        let events = await apiClient.getEvents();
+
+        // Apply filters
+        // Interests are matched through the search index; the best matches are kept and later shown by date
+        if (interests) {
+          events = searchItems(events, eventSearchFields, interests.split(',').join(' ')).map(hit => hit.item);
+        }
+
+        if (location) {
+          events = events.filter(placeMatcher(location));
+        }
+
+        if (event_type) {
+          events = events.filter(event => 
+            event.category.toLowerCase().includes(event_type.toLowerCase())
+          );
+        }
+
+        // Filter by timeframe: events starting within the resolved range
+        if (range) {
+          events = filterEventDates(events, { start_after: range.start, start_before: range.end });
+        }
+
+        // Take the top 10 (by relevance when interests were given) and sort them by date
+        const recommendations = (interests ? events.slice(0, 10) : [...events])
+          .sort((a, b) => new Date(a.eventStartDate).getTime() - new Date(b.eventStartDate).getTime())
+          .slice(0, 10);
+
+        const recommendationData = recommendations.map(event => ({
+          id: event._id,
+          title: event.title,
+          organizer: event.company,
+          category: event.category,
+          location: `${event.city}, ${event.country}`,
+          dates: event.eventStartDate,
+          website: event.website,
+          description: event.description.substring(0, 200) + '...'
+        }));
+
+        const criteria = [];
+        if (interests) criteria.push(`Interests: ${interests}`);
+        if (location) criteria.push(`Location: ${location}`);
+        if (range) criteria.push(`Timeframe: ${describeTimeframe(range)}`);
+        if (event_type) criteria.push(`Event Type: ${event_type}`);
+
+        return {
+          messages: [{
+            role: "user",
+            content: {
+              type: "text",
+              text: `Based on your criteria: ${criteria.join(', ')}
+
+I found ${recommendations.length} events that match your preferences:
+
+${JSON.stringify(recommendationData, null, 2)}
+
+Please provide personalized recommendations covering:
+1. Why each event matches the user's criteria
+2. Expected value and learning opportunities
+3. Networking potential and target audience
+4. Logistics and practical considerations
+5. Alternative options if the top recommendations don't work
+6. Tips for maximizing the event experience
+7. Follow-up actions and preparation suggestions
+
+Rank the recommendations by relevance and explain your reasoning.`
+          }
+        }]
+      };
+      } catch (error) {
+        return {
+          messages: [{
+            role: "user",
+            content: {
+              type: "text",
+              text: `Error generating event recommendations: ${error}. Please provide guidance on how to help users find relevant events.`
+            }
+          }]
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,168 @@
+// src/resolver.ts
+import { z } from "zod";
+import { editDistance, normalizeText } from "./completion.js";
+import { Company } from "./schemas.js";
+
+export const RESOLUTION_METHODS = ["slug", "name", "domain", "social", "fuzzy"] as const;
+export type ResolutionMethod = typeof RESOLUTION_METHODS[number];
+
+// Confidence of a unique match at each stage; fuzzy matches scale this by similarity
+const STAGE_CONFIDENCE: Record<ResolutionMethod, number> = {
+  slug: 1,
+  name: 0.95,
+  domain: 0.9,
+  social: 0.85,
+  fuzzy: 0.8
+};
+
+// A fuzzy match is only taken when it is this confident and clearly ahead of the runner-up
+const FUZZY_MIN_SIMILARITY = 0.6;
+const FUZZY_RESOLVE_CONFIDENCE = 0.65;
+const FUZZY_MIN_MARGIN = 0.1;
+const MAX_CANDIDATES = 5;
+
+export const resolutionSchema = z.object({
+  method: z.enum(RESOLUTION_METHODS).describe("How the identifier matched: slug, name, website domain, social handle or fuzzy name"),
+  confidence: z.number().describe("0 to 1; 1 is an exact slug match")
+});
+
+export interface CompanyCandidate {
+  company: Company;
+  method: ResolutionMethod;
+  confidence: number;
+}
+
+export interface CompanyResolution {
+  query: string;
+  status: "resolved" | "ambiguous" | "not_found";
+  // Set only when status is "resolved"
+  match: CompanyCandidate | null;
+  // Ranked best first; for "resolved" this holds the match alone
+  candidates: CompanyCandidate[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function hostOf(value: string): string | null {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed || /\s/.test(trimmed) || !trimmed.includes(".")) return null;
+  try {
+    const host = new URL(/^[a-z][a-z0-9+.-]*:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`).hostname;
+    return host.replace(/^www\./, "") || null;
+  } catch {
+    return null;
+  }
+}
+
+// "@bitmart", "https://twitter.com/BitMart/", "t.me/bitmart" and "bitmart" all give "bitmart"
+function handleOf(value: string): string | null {
+  let handle = value.trim().toLowerCase();
+  if (!handle) return null;
+  if (hostOf(handle)) {
+    try {
+      const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//.test(handle) ? handle : `https://${handle}`);
+      const segments = url.pathname.split("/").filter(Boolean);
+      // linkedin.com/company/<handle>, youtube.com/c/<handle>
+      handle = segments.find(segment => !["company", "in", "c", "channel", "user"].includes(segment)) ?? "";
+    } catch {
+      return null;
+    }
+  }
+  handle = handle.replace(/^@/, "");
+  return handle || null;
+}
+
+function socialHandles(company: Company): string[] {
+  return Object.values(company.socialLinks)
+    .map(link => handleOf(link))
+    .filter((handle): handle is string => handle !== null);
+}
+
+function bigrams(text: string): string[] {
+  const compact = text.replace(/\s+/g, " ");
+  return Array.from({ length: Math.max(0, compact.length - 1) }, (_, i) => compact.slice(i, i + 2));
+}
+
+// Best of edit-distance similarity and bigram overlap (which tolerates extra or reordered words)
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  const edit = 1 - editDistance(a, b) / Math.max(a.length, b.length);
+  const left = bigrams(a);
+  const right = bigrams(b);
+  const remaining = [...right];
+  let shared = 0;
+  for (const gram of left) {
+    const index = remaining.indexOf(gram);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  const dice = left.length + right.length > 0 ? 2 * shared / (left.length + right.length) : 0;
+  return Math.max(edit, dice);
+}
+
+function decide(query: string, candidates: CompanyCandidate[]): CompanyResolution {
+  const ranked = [...candidates].sort((a, b) => b.confidence - a.confidence || a.company.name.localeCompare(b.company.name));
+  const [best, second] = ranked;
+  if (!best) return { query, status: "not_found", match: null, candidates: [] };
+
+  const clear = best.method === "fuzzy"
+    ? best.confidence >= FUZZY_RESOLVE_CONFIDENCE && (!second || best.confidence - second.confidence >= FUZZY_MIN_MARGIN)
+    : !second;
+  return clear
+    ? { query, status: "resolved", match: best, candidates: [best] }
+    : { query, status: "ambiguous", match: null, candidates: ranked.slice(0, MAX_CANDIDATES) };
+}
+
+// Resolves a slug, name, website or social handle to one company. Stages run in
+// order and the first stage with any match decides; several matches within a
+// stage make the result ambiguous rather than picking one.
+export function resolveCompany(companies: Company[], identifier: string): CompanyResolution {
+  const query = identifier.trim();
+  const stage = (method: ResolutionMethod, matches: (company: Company) => boolean) =>
+    companies.filter(matches).map(company => ({ company, method, confidence: STAGE_CONFIDENCE[method] }));
+
+  const lowered = query.toLowerCase();
+  const bySlug = stage("slug", company => company.slug.toLowerCase() === lowered);
+  if (bySlug.length) return decide(query, bySlug);
+
+  const normalized = normalizeText(query);
+  const byName = stage("name", company => normalizeText(company.name) === normalized);
+  if (byName.length) return decide(query, byName);
+
+  const host = hostOf(query);
+  if (host) {
+    const byDomain = stage("domain", company => hostOf(company.url) === host);
+    if (byDomain.length) return decide(query, byDomain);
+  }
+
+  const handle = handleOf(query);
+  if (handle) {
+    const bySocial = stage("social", company => socialHandles(company).includes(handle));
+    if (bySocial.length) return decide(query, bySocial);
+  }
+
+  const fuzzy: CompanyCandidate[] = [];
+  for (const company of companies) {
+    const score = Math.max(similarity(normalized, normalizeText(company.name)), similarity(lowered, company.slug.toLowerCase()));
+    if (score >= FUZZY_MIN_SIMILARITY) {
+      fuzzy.push({ company, method: "fuzzy", confidence: round(score * STAGE_CONFIDENCE.fuzzy) });
+    }
+  }
+  return decide(query, fuzzy);
+}
+
+export function describeCandidates(resolution: CompanyResolution): string {
+  return resolution.candidates
+    .map((candidate, i) => `${i + 1}. ${candidate.company.name} (slug: ${candidate.company.slug}) - matched by ${candidate.method}, confidence ${candidate.confidence}`)
+    .join("\n");
+}
+
+// Message for a resolution that did not produce a single company
+export function unresolvedMessage(resolution: CompanyResolution): string {
+  if (resolution.status === "ambiguous") {
+    return `"${resolution.query}" matches more than one company. Candidates, best first:\n${describeCandidates(resolution)}\n\nCall again with one of these slugs.`;
+  }
+  return `Company not found: ${resolution.query}`;
+}
@@ -0,0 +1,720 @@
+// src/resources.ts
+import { McpServer, RegisteredResource, RegisteredResourceTemplate, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AccessGuard } from "./auth.js";
+import { BlockzaAPIClient } from "./client.js";
+import { createCompleters } from "./completion.js";
+import { calendarName, calendarUri, EventFilter, eventTiming, selectEvents } from "./events.js";
+import { EXPORT_ENTITIES, EXPORT_FORMATS, EXPORT_MIME_TYPES, exportEntities, exportRequestFrom, exportUris } from "./export.js";
+import { eventsToIcs, ICS_MIME_TYPE } from "./ics.js";
+import { eventDate, getCompanyActivity, podcastDate } from "./links.js";
+import { paginate, pageRequestFrom, paginationInfo, QueryUriTemplate } from "./pagination.js";
+import { CompanyResolution } from "./resolver.js";
+import { toEventSummary, toPodcastSummary } from "./schemas.js";
+import { searchDirectory } from "./search.js";
+import { hasDrift } from "./validation.js";
+
+const companiesUri = new QueryUriTemplate("blockza://companies", ["cursor", "page_size"]);
+const eventsUri = new QueryUriTemplate("blockza://events", ["cursor", "page_size"]);
+const podcastsUri = new QueryUriTemplate("blockza://podcasts", ["cursor", "page_size"]);
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+const companyUri = (slug: string) => `blockza://company/${encodeURIComponent(slug)}`;
+
+// Error body for a company identifier that did not resolve, listing candidates when ambiguous
+function unresolvedCompany(slug: string, resolution: CompanyResolution) {
+  const candidates = resolution.candidates.map(({ company, method, confidence }) => ({
+    slug: company.slug,
+    name: company.name,
+    uri: companyUri(company.slug),
+    method,
+    confidence
+  }));
+  return {
+    error: resolution.status === "ambiguous" ? `Ambiguous company: ${slug}` : `Company not found: ${slug}`,
+    ...(candidates.length && { candidates })
+  };
+}
+
+// A registered resource with its URI (null for templates), for the paged resources/list
+export interface TrackedResource {
+  uri: string | null;
+  registered: RegisteredResource | RegisteredResourceTemplate;
+}
+
+// Registers the resources the access guard allows and returns them
+export function registerResources(server: McpServer, apiClient: BlockzaAPIClient, allowed: AccessGuard): TrackedResource[] {
+  const complete = createCompleters(apiClient);
+  const tracked: TrackedResource[] = [];
+  const serve = (uri: string | null, registered: TrackedResource["registered"]) => {
+    tracked.push({ uri, registered });
+  };
+
+  if (allowed("resources", "companies")) serve(null, server.registerResource(
+    "companies",
+    new ResourceTemplate(companiesUri, {
+      list: async () => ({ resources: [{ uri: "blockza://companies", name: "companies" }] })
+    }),
+    {
+      title: "All Companies",
+      description: "Paged directory of companies in the Blockza ecosystem. Follow pagination.next_uri for the next page",
+      mimeType: "application/json"
+    },
+    async (uri, variables) => {
+      try {
+        const data = await apiClient.getCompanies();
+        const page = paginate(data.data || [], company => company._id, pageRequestFrom(variables));
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({
+              success: data.success,
+              data: page.items,
+              pagination: { ...paginationInfo(page), next_uri: companiesUri.pageUri(page.next_cursor) }
+            }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      } catch (error) {
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({ error: `Failed to fetch companies: ${error}` }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      }
+    }
+  ));
+
+  if (allowed("resources", "company-profile")) serve(null, server.registerResource(
+    "company-profile",
+    new ResourceTemplate("blockza://company/{slug}", {
+      list: async () => {
+        const data = await apiClient.getCompanies();
+        return {
+          resources: (data.data || []).filter(company => company.slug).map(company => ({
+            uri: companyUri(company.slug),
+            name: company.name,
+            title: company.name,
+            description: [company.category, company.shortDescription].filter(Boolean).join(" - "),
+            mimeType: "application/json"
+          }))
+        };
+      },
+      complete: { slug: complete.companySlugs }
+    }),
+    {
+      title: "Company Profile",
+      description: "Detailed profile information for a specific company",
+      mimeType: "application/json"
+    },
+    async (uri, { slug }) => {
+      try {
+        if (typeof slug !== 'string') {
+          return {
+            contents: [{
+              uri: uri.href,
+              text: JSON.stringify({ error: "Invalid slug parameter" }, null, 2),
+              mimeType: "application/json"
+            }]
+          };
+        }
+
+        const resolution = await apiClient.resolveCompany(safeDecode(slug));
+        if (!resolution.match) {
+          return {
+            contents: [{
+              uri: uri.href,
+              text: JSON.stringify(unresolvedCompany(slug, resolution), null, 2),
+              mimeType: "application/json"
+            }]
+          };
+        }
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify(resolution.match.company, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      } catch (error) {
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({ error: `Failed to fetch company: ${error}` }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      }
+    }
+  ));
+
+  // Company activity, linked through event and podcast company names (see links.ts)
+  const activityResource = (type: "events" | "podcasts") => async (uri: URL, { slug }: Record<string, string | string[]>) => {
+    const respond = (body: unknown) => ({
+      contents: [{
+        uri: uri.href,
+        text: JSON.stringify(body, null, 2),
+        mimeType: "application/json"
+      }]
+    });
+
+    try {
+      if (typeof slug !== 'string') return respond({ error: "Invalid slug parameter" });
+
+      const resolution = await apiClient.resolveCompany(safeDecode(slug));
+      if (!resolution.match) return respond(unresolvedCompany(slug, resolution));
+
+      const { company, method, confidence } = resolution.match;
+      const lookup = await getCompanyActivity(apiClient, company, { types: [type === "events" ? "event" : "podcast"] });
+      const items = type === "events"
+        ? lookup.events.map(({ item, link }) => ({ ...toEventSummary(item), date: eventDate(item), link }))
+        : lookup.podcasts.map(({ item, link }) => ({ ...toPodcastSummary(item), date: podcastDate(item), link }));
+
+      return respond({
+        success: true,
+        company: { slug: company.slug, name: company.name, uri: companyUri(company.slug) },
+        resolution: { method, confidence },
+        total: items.length,
+        [type]: items
+      });
+    } catch (error) {
+      return respond({ error: `Failed to fetch company ${type}: ${error}` });
+    }
+  };
+
+  if (allowed("resources", "company-events")) serve(null, server.registerResource(
+    "company-events",
+    new ResourceTemplate("blockza://company/{slug}/events", {
+      list: undefined,
+      complete: { slug: complete.companySlugs }
+    }),
+    {
+      title: "Company Events",
+      description: "Events linked to a company, oldest first, each with the confidence of its company match",
+      mimeType: "application/json"
+    },
+    activityResource("events")
+  ));
+
+  if (allowed("resources", "company-podcasts")) serve(null, server.registerResource(
+    "company-podcasts",
+    new ResourceTemplate("blockza://company/{slug}/podcasts", {
+      list: undefined,
+      complete: { slug: complete.companySlugs }
+    }),
+    {
+      title: "Company Podcasts",
+      description: "Podcast episodes linked to a company, oldest first, each with the confidence of its company match",
+      mimeType: "application/json"
+    },
+    activityResource("podcasts")
+  ));
+
+  if (allowed("resources", "categories")) serve("blockza://categories", server.registerResource(
+    "categories",
+    "blockza://categories",
+    {
+      title: "Company Categories",
+      description: "Available categories for filtering companies",
+      mimeType: "application/json"
+    },
+    async (uri) => {
+      try {
+        const data = await apiClient.getCompanies();
+        const categories = new Set<string>();
+
+        if (data.success && data.data) {
+          data.data.forEach(company => {
+            if (company.category) {
+              categories.add(company.category);
+            }
+          });
+        }
+
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({
+              success: true,
+              categories: Array.from(categories).sort()
+            }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      } catch (error) {
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({ error: `Failed to fetch categories: ${error}` }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      }
+    }
+  ));
+
+  // Events Resources
+  if (allowed("resources", "events")) serve(null, server.registerResource(
+    "events",
+    new ResourceTemplate(eventsUri, {
+      list: async () => ({ resources: [{ uri: "blockza://events", name: "events" }] })
+    }),
+    {
+      title: "All Events",
+      description: "Paged directory of events in the Blockza ecosystem. Follow pagination.next_uri for the next page",
+      mimeType: "application/json"
+    },
+    async (uri, variables) => {
+      try {
+        const events = await apiClient.getEvents();
+        const page = paginate(events, event => event._id, pageRequestFrom(variables));
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({
+              success: true,
+              data: page.items,
+              pagination: { ...paginationInfo(page), next_uri: eventsUri.pageUri(page.next_cursor) }
+            }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      } catch (error) {
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({ error: `Failed to fetch events: ${error}` }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      }
+    }
+  ));
+
+  if (allowed("resources", "event-details")) serve(null, server.registerResource(
+    "event-details",
+    new ResourceTemplate("blockza://event/{id}", {
+      list: async () => {
+        const events = await apiClient.getEvents();
+        return {
+          resources: events.filter(event => event._id).map(event => ({
+            uri: `blockza://event/${encodeURIComponent(event._id)}`,
+            name: event.title,
+            title: event.title,
+            description: [
+              event.category,
+              [event.city, event.country].filter(Boolean).join(", "),
+              event.eventStartDate?.slice(0, 10)
+            ].filter(Boolean).join(" - "),
+            mimeType: "application/json"
+          }))
+        };
+      },
+      complete: { id: complete.eventIds }
+    }),
+    {
+      title: "Event Details",
+      description: "Detailed information for a specific event",
+      mimeType: "application/json"
+    },
+    async (uri, { id }) => {
+      try {
+        if (typeof id !== 'string') {
+          return {
+            contents: [{
+              uri: uri.href,
+              text: JSON.stringify({ error: "Invalid event ID parameter" }, null, 2),
+              mimeType: "application/json"
+            }]
+          };
+        }
+
+        const event = await apiClient.getEventById(id);
+        if (!event) {
+          return {
+            contents: [{
+              uri: uri.href,
+              text: JSON.stringify({ error: `Event not found: ${id}` }, null, 2),
+              mimeType: "application/json"
+            }]
+          };
+        }
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify(event, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      } catch (error) {
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({ error: `Failed to fetch event: ${error}` }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      }
+    }
+  ));
+
+  if (allowed("resources", "upcoming-events")) serve("blockza://events/upcoming", server.registerResource(
+    "upcoming-events",
+    "blockza://events/upcoming",
+    {
+      title: "Upcoming Events",
+
+      description: "Events in the Blockza ecosystem that have not ended yet, including those in progress, soonest first",
+      mimeType: "application/json"
+    },
+    async (uri) => {
+      try {
+        const now = Date.now();
+        const events = await apiClient.getUpcomingEvents();
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify(events.map(event => ({ ...event, ...eventTiming(event, now) })), null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      } catch (error) {
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({ error: `Failed to fetch upcoming events: ${error}` }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      }
+    }
+  ));
+
+  if (allowed("resources", "event-categories")) serve("blockza://events/categories", server.registerResource(
+    "event-categories",
+    "blockza://events/categories",
+    {
+      title: "Event Categories",
+      description: "Available categories for filtering events",
+      mimeType: "application/json"
+    },
+    async (uri) => {
+      try {
+        const events = await apiClient.getEvents();
+        const categories = new Set<string>();
+
+        events.forEach(event => {
+          if (event.category) {
+            categories.add(event.category);
+          }
+        });
+
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({
+              success: true,
+              categories: Array.from(categories).sort()
+            }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      } catch (error) {
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({ error: `Failed to fetch event categories: ${error}` }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      }
+    }
+  ));
+
+  if (allowed("resources", "events-calendar")) serve(null, server.registerResource(
+    "events-calendar",
+    new ResourceTemplate(calendarUri, {
+      list: async () => ({ resources: [{ uri: "blockza://events/calendar.ics", name: "events-calendar" }] }),
+      complete: { category: complete.eventCategories, country: complete.eventLocations, city: complete.eventLocations }
+    }),
+    {
+      title: "Events Calendar",
+      description: "Events as an iCalendar (RFC 5545) file. Optional query parameters: search, category, country, city, region, start_after, start_before, end_after, status (e.g. blockza://events/calendar.ics?category=Conference&region=Europe)",
+      mimeType: ICS_MIME_TYPE
+    },
+    async (uri, variables) => {
+      const filter: EventFilter = Object.fromEntries(
+        Object.entries(variables).map(([name, value]) => [name, Array.isArray(value) ? value[0] : value])
+      );
+      try {
+        const events = await selectEvents(apiClient, filter);
+        return {
+          contents: [{
+            uri: uri.href,
+            text: eventsToIcs(events, { name: calendarName(filter) }),
+            mimeType: ICS_MIME_TYPE
+          }]
+        };
+      } catch (error) {
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({ error: `Failed to export events: ${error}` }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      }
+    }
+  ));
+
+  // Podcasts Resources
+  if (allowed("resources", "podcasts")) serve(null, server.registerResource(
+    "podcasts",
+    new ResourceTemplate(podcastsUri, {
+      list: async () => ({ resources: [{ uri: "blockza://podcasts", name: "podcasts" }] })
+    }),
+    {
+      title: "All Podcasts",
+      description: "Paged list of podcasts from Blockza. Follow pagination.next_uri for the next page",
+      mimeType: "application/json"
+    },
+    async (uri, variables) => {
+      try {
+        const podcasts = await apiClient.getPodcasts();
+        const page = paginate(podcasts, p => p.id, pageRequestFrom(variables));
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({
+              success: true,
+              data: page.items,
+              pagination: { ...paginationInfo(page), next_uri: podcastsUri.pageUri(page.next_cursor) }
+            }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      } catch (error) {
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({ error: `Failed to fetch podcasts: ${error}` }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      }
+    }
+  ));
+
+  if (allowed("resources", "podcast-details")) serve(null, server.registerResource(
+    "podcast-details",
+    new ResourceTemplate("blockza://podcast/{id}", {
+      list: async () => {
+        const podcasts = await apiClient.getPodcasts();
+        return {
+          resources: podcasts.map(p => ({
+            uri: `blockza://podcast/${encodeURIComponent(p.id)}`,
+            name: p.title,
+            title: p.title,
+            description: [p.category, p.company, p.shortDescription].filter(Boolean).join(" - "),
+            mimeType: "application/json"
+          }))
+        };
+      },
+      complete: { id: complete.podcastIds }
+    }),
+    {
+      title: "Podcast Details",
+      description: "Detailed information for a specific podcast",
+      mimeType: "application/json"
+    },
+    async (uri, { id }) => {
+      try {
+        if (typeof id !== 'string') {
+          return {
+            contents: [{
+              uri: uri.href,
+              text: JSON.stringify({ error: "Invalid podcast ID parameter" }, null, 2),
+              mimeType: "application/json"
+            }]
+          };
+        }
+
+        const podcast = await apiClient.getPodcastById(id);
+        if (!podcast) {
+          return {
+            contents: [{
+              uri: uri.href,
+              text: JSON.stringify({ error: `Podcast not found: ${id}` }, null, 2),
+              mimeType: "application/json"
+            }]
+          };
+        }
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify(podcast, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      } catch (error) {
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({ error: `Failed to fetch podcast: ${error}` }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      }
+    }
+  ));
+
+  if (allowed("resources", "podcast-categories")) serve("blockza://podcasts/categories", server.registerResource(
+    "podcast-categories",
+    "blockza://podcasts/categories",
+    {
+      title: "Podcast Categories",
+      description: "Available categories for filtering podcasts",
+      mimeType: "application/json"
+    },
+    async (uri) => {
+      try {
+        const podcasts = await apiClient.getPodcasts();
+        const categories = new Set<string>();
+        podcasts.forEach(p => { if (p.category) categories.add(p.category); });
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({ success: true, categories: Array.from(categories).sort() }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      } catch (error) {
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({ error: `Failed to fetch podcast categories: ${error}` }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      }
+    }
+  ));
+
+  // Search Resources
+  if (allowed("resources", "search")) serve(null, server.registerResource(
+    "search",
+    new ResourceTemplate("blockza://search/{query}", { list: undefined }),
+    {
+      title: "Directory Search",
+      description: "Companies, events and podcasts matching a URL-encoded query, ranked by relevance (for example blockza://search/zero%20knowledge)",
+      mimeType: "application/json"
+    },
+    async (uri, { query }) => {
+      try {
+        const raw = Array.isArray(query) ? query.join(",") : query;
+        const text = raw === undefined ? "" : safeDecode(raw).trim();
+        if (!text) {
+          return {
+            contents: [{
+              uri: uri.href,
+              text: JSON.stringify({ error: "Invalid query parameter" }, null, 2),
+              mimeType: "application/json"
+            }]
+          };
+        }
+
+        const search = await searchDirectory(apiClient, text);
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({ success: true, ...search }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      } catch (error) {
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify({ error: `Failed to search the directory: ${error}` }, null, 2),
+            mimeType: "application/json"
+          }]
+        };
+      }
+    }
+  ));
+
+  // Tabular exports, one resource per entity and format
+  for (const entity of EXPORT_ENTITIES) {
+    for (const format of EXPORT_FORMATS) {
+      const template = exportUris[`${entity}.${format}`];
+      const base = `blockza://export/${entity}.${format}`;
+      const name = `export-${entity.replace("_", "-")}-${format}`;
+      if (allowed("resources", name)) serve(null, server.registerResource(
+        name,
+        new ResourceTemplate(template, {
+          list: async () => ({ resources: [{ uri: base, name: `${entity}.${format}` }] })
+        }),
+        {
+          title: `${entity === "team_members" ? "Team Members" : entity[0]!.toUpperCase() + entity.slice(1)} (${format.toUpperCase()})`,
+          description: `Export of ${entity.replace("_", " ")} as ${format.toUpperCase()}. Query parameters: columns (comma-separated, "*" for all), limit and the export_entities filters, e.g. ${base}?category=AI`,
+          mimeType: EXPORT_MIME_TYPES[format]
+        },
+        async (uri, variables) => {
+          try {
+            const result = await exportEntities(apiClient, exportRequestFrom(entity, format, variables));
+            return {
+              contents: [{
+                uri: uri.href,
+                text: result.content,
+                mimeType: result.mime_type
+              }]
+            };
+          } catch (error) {
+            return {
+              contents: [{
+                uri: uri.href,
+                text: JSON.stringify({ error: `Failed to export ${entity}: ${error}` }, null, 2),
+                mimeType: "application/json"
+              }]
+            };
+          }
+        }
+      ));
+    }
+  }
+
+  // Diagnostics
+  if (allowed("resources", "schema-diagnostics")) serve("blockza://diagnostics/schema", server.registerResource(
+    "schema-diagnostics",
+    "blockza://diagnostics/schema",
+    {
+      title: "API Schema Diagnostics",
+      description: "How the latest response from each Blockza API compared to the expected schema: rejected items, defaulted fields and unknown fields",
+      mimeType: "application/json"
+    },
+    async (uri) => {
+      const reports = apiClient.getSchemaDiagnostics();
+      return {
+        contents: [{
+          uri: uri.href,
+          text: JSON.stringify({
+            success: true,
+            drift_detected: Object.values(reports).some(report => report && hasDrift(report)),
+            endpoints: reports
+          }, null, 2),
+          mimeType: "application/json"
+        }]
+      };
+    }
+  ));
+
+  return tracked;
+}
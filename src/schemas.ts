@@ -0,0 +1,475 @@
+// src/schemas.ts
+import { z } from "zod";
+
+// Normalized entity shapes. The TypeScript types are inferred from these schemas,
+// and tool output schemas are projections of them, so the two cannot drift apart.
+// Upstream payloads are converted into these shapes by the upstream* schemas below.
+
+// Directory API
+export const socialLinksSchema = z.object({
+  facebook: z.string(),
+  linkedin: z.string(),
+  telegram: z.string(),
+  twitter: z.string(),
+  youtube: z.string()
+});
+
+export const promotionSettingsSchema = z.object({
+  hasAffiliateProgram: z.boolean(),
+  interestedInBusinessPartnership: z.boolean()
+});
+
+export const teamMemberSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  title: z.string(),
+  email: z.string(),
+  image: z.string(),
+  linkedinUrl: z.string(),
+  price: z.number(),
+  bookingMethods: z.array(z.string()),
+  status: z.string(),
+  followers: z.number(),
+  responseRate: z.number()
+});
+
+export const companySchema = z.object({
+  _id: z.string(),
+  id: z.string(),
+  name: z.string(),
+  slug: z.string(),
+  shortDescription: z.string(),
+  detail: z.string(),
+  category: z.string(),
+  logo: z.string(),
+  banner: z.string(),
+  founderName: z.string(),
+  founderDetails: z.string(),
+  founderEmail: z.string(),
+  founderImage: z.string(),
+  verificationStatus: z.string(),
+  url: z.string(),
+  isPromoted: z.boolean(),
+  likes: z.number(),
+  views: z.number(),
+  socialLinks: socialLinksSchema,
+  promotionSettings: promotionSettingsSchema,
+  teamMembers: z.array(teamMemberSchema),
+  createdAt: z.string().describe("ISO 8601 timestamp, empty when unknown"),
+  updatedAt: z.string().describe("ISO 8601 timestamp, empty when unknown"),
+  followerPrice: z.number(),
+  founderFollowers: z.number(),
+  founderResponseRate: z.number()
+});
+
+// Podcasts API
+export const podcastImageSchema = z.object({
+  public_id: z.string(),
+  url: z.string(),
+  caption: z.string()
+});
+
+export const podcastItemSchema = z.object({
+  image: podcastImageSchema,
+  _id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  shortDescription: z.string(),
+  slug: z.string(),
+  category: z.string(),
+  company: z.string(),
+  youtubeIframe: z.string(),
+  status: z.string(),
+  likes: z.number(),
+  views: z.number(),
+  comments: z.array(z.unknown()),
+  createdAt: z.string().describe("ISO 8601 timestamp, empty when unknown"),
+  updatedAt: z.string().describe("ISO 8601 timestamp, empty when unknown"),
+  __v: z.number(),
+  id: z.string()
+});
+
+// Events API
+export const eventSocialLinksSchema = z.object({
+  linkedin: z.string(),
+  telegram: z.string(),
+  twitter: z.string(),
+  instagram: z.string()
+});
+
+export const eventSchema = z.object({
+  _id: z.string(),
+  id: z.string(),
+  title: z.string(),
+  company: z.string(),
+  description: z.string(),
+  location: z.string(),
+  country: z.string(),
+  city: z.string(),
+  eventStartDate: z.string().describe("ISO 8601 timestamp"),
+  eventEndDate: z.string().describe("ISO 8601 timestamp; equals the start when the API has no end date"),
+  category: z.string(),
+  website: z.string(),
+  featuredImage: z.string(),
+  socialLinks: eventSocialLinksSchema,
+  createdAt: z.string().describe("ISO 8601 timestamp, empty when unknown"),
+  updatedAt: z.string().describe("ISO 8601 timestamp, empty when unknown"),
+  __v: z.number()
+});
+
+export type SocialLinks = z.infer<typeof socialLinksSchema>;
+export type PromotionSettings = z.infer<typeof promotionSettingsSchema>;
+export type TeamMember = z.infer<typeof teamMemberSchema>;
+export type Company = z.infer<typeof companySchema>;
+export type PodcastImage = z.infer<typeof podcastImageSchema>;
+export type PodcastItem = z.infer<typeof podcastItemSchema>;
+export type EventSocialLinks = z.infer<typeof eventSocialLinksSchema>;
+export type Event = z.infer<typeof eventSchema>;
+
+// Upstream payloads. Missing or null fields get defaults, numeric strings become
+// numbers, and dates are re-serialized as ISO 8601. Only fields the rest of the
+// server cannot do without (ids, names, event start dates) reject an item.
+const text = z.string().nullish().transform(value => value ?? "");
+const count = z
+  .union([z.number(), z.string().regex(/^\s*-?\d+(\.\d+)?\s*$/).transform(Number)])
+  .nullish()
+  .transform(value => value ?? 0);
+const flag = z.boolean().nullish().transform(value => value ?? false);
+const textList = z.array(z.string()).nullish().transform(value => value ?? []);
+const required = z.string().trim().min(1, "Required");
+
+function toIsoDate(value: string | number, ctx: z.RefinementCtx): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid date: ${value}` });
+    return z.NEVER;
+  }
+  return date.toISOString();
+}
+
+const requiredDate = z.union([z.string(), z.number()]).transform(toIsoDate);
+const optionalDate = z
+  .union([z.string(), z.number()])
+  .nullish()
+  .transform((value, ctx) => value === null || value === undefined || value === "" ? "" : toIsoDate(value, ctx));
+
+// A nested object that may be missing entirely; every field of `schema` must have a default
+function defaulted<T extends z.ZodTypeAny>(schema: T) {
+  return schema.nullish().transform(value => (value ?? schema.parse({})) as z.output<T>);
+}
+
+// Items carry `_id`, `id` or both; the normalized model always has both
+function withId<T extends { _id?: string | undefined; id?: string | undefined }>(item: T, ctx: z.RefinementCtx) {
+  const id = item._id || item.id;
+  if (!id) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["_id"], message: "Missing both _id and id" });
+    return z.NEVER;
+  }
+  return { ...item, _id: id, id };
+}
+
+const upstreamTeamMemberFields = z.object({
+  _id: text,
+  name: text,
+  title: text,
+  email: text,
+  image: text,
+  linkedinUrl: text,
+  price: count,
+  bookingMethods: textList,
+  status: text,
+  followers: count,
+  responseRate: count
+});
+
+export const upstreamCompanyFields = z.object({
+  _id: z.string().optional(),
+  id: z.string().optional(),
+  name: required,
+  slug: required,
+  shortDescription: text,
+  detail: text,
+  category: text,
+  logo: text,
+  banner: text,
+  founderName: text,
+  founderDetails: text,
+  founderEmail: text,
+  founderImage: text,
+  verificationStatus: text,
+  url: text,
+  isPromoted: flag,
+  likes: count,
+  views: count,
+  socialLinks: defaulted(z.object({
+    facebook: text,
+    linkedin: text,
+    telegram: text,
+    twitter: text,
+    youtube: text
+  })),
+  promotionSettings: defaulted(z.object({
+    hasAffiliateProgram: flag,
+    interestedInBusinessPartnership: flag
+  })),
+  teamMembers: z.array(upstreamTeamMemberFields).nullish().transform(value => value ?? []),
+  createdAt: optionalDate,
+  updatedAt: optionalDate,
+  followerPrice: count,
+  founderFollowers: count,
+  founderResponseRate: count
+});
+
+export const upstreamCompanySchema: z.ZodType<Company, z.ZodTypeDef, unknown> =
+  upstreamCompanyFields.transform(withId);
+
+export const upstreamPodcastFields = z.object({
+  _id: z.string().optional(),
+  id: z.string().optional(),
+  image: defaulted(z.object({
+    public_id: text,
+    url: text,
+    caption: text
+  })),
+  title: required,
+  description: text,
+  shortDescription: text,
+  slug: text,
+  category: text,
+  company: text,
+  youtubeIframe: text,
+  status: text,
+  likes: count,
+  views: count,
+  comments: z.array(z.unknown()).nullish().transform(value => value ?? []),
+  createdAt: optionalDate,
+  updatedAt: optionalDate,
+  __v: count
+});
+
+export const upstreamPodcastSchema: z.ZodType<PodcastItem, z.ZodTypeDef, unknown> =
+  upstreamPodcastFields.transform(withId);
+
+export const upstreamEventFields = z.object({
+  _id: z.string().optional(),
+  id: z.string().optional(),
+  title: required,
+  company: text,
+  description: text,
+  location: text,
+  country: text,
+  city: text,
+  eventStartDate: requiredDate,
+  eventEndDate: optionalDate,
+  category: text,
+  website: text,
+  featuredImage: text,
+  socialLinks: defaulted(z.object({
+    linkedin: text,
+    telegram: text,
+    twitter: text,
+    instagram: text
+  })),
+  createdAt: optionalDate,
+  updatedAt: optionalDate,
+  __v: count
+});
+
+export const upstreamEventSchema: z.ZodType<Event, z.ZodTypeDef, unknown> = upstreamEventFields.transform((event, ctx) => ({
+  ...withId(event, ctx),
+  eventEndDate: event.eventEndDate || event.eventStartDate
+}));
+
+// Response envelopes; items are validated one by one so a bad item does not fail the list
+export const directoryResponseSchema = z
+  .object({ success: z.boolean(), data: z.array(z.unknown()).optional() })
+  .refine(response => !response.success || response.data, { message: "Required when success is true", path: ["data"] });
+
+export const eventsResponseSchema = z.array(z.unknown());
+
+export const podcastsResponseSchema = z.union([
+  z.array(z.unknown()),
+  z.object({ success: z.boolean().optional(), count: z.number().optional(), data: z.array(z.unknown()) })
+]);
+
+// Single-item responses (GET <endpoint>/<id>) are either the bare item or wrapped in `data`
+export const itemResponseSchema = z.union([
+  z.object({ success: z.boolean().optional(), data: z.object({}).passthrough() }).transform(response => response.data),
+  z.object({}).passthrough()
+]);
+
+// Projections returned by the tools
+const company = companySchema.shape;
+const member = teamMemberSchema.shape;
+const event = eventSchema.shape;
+const podcast = podcastItemSchema.shape;
+
+export const companySummarySchema = companySchema.pick({
+  _id: true,
+  name: true,
+  slug: true,
+  category: true,
+  shortDescription: true,
+  logo: true,
+  banner: true,
+  founderName: true,
+  verificationStatus: true,
+  url: true,
+  likes: true,
+  views: true
+});
+
+export const teamMemberSummarySchema = teamMemberSchema
+  .pick({
+    name: true,
+    title: true,
+    email: true,
+    image: true,
+    status: true,
+    followers: true,
+    responseRate: true,
+    price: true,
+    bookingMethods: true
+  })
+  .extend({ linkedin: member.linkedinUrl });
+
+export const companyDetailsSchema = z.object({
+  basic_info: companySchema.pick({
+    name: true,
+    slug: true,
+    category: true,
+    shortDescription: true,
+    detail: true,
+    logo: true,
+    banner: true,
+    url: true,
+    verificationStatus: true
+  }),
+  founder: z.object({
+    name: company.founderName,
+    details: company.founderDetails,
+    email: company.founderEmail,
+    image: company.founderImage,
+    followers: company.founderFollowers,
+    responseRate: company.founderResponseRate
+  }),
+  social_links: socialLinksSchema,
+  promotion_settings: promotionSettingsSchema,
+  stats: companySchema.pick({ likes: true, views: true, followerPrice: true }),
+  team_members: z.array(teamMemberSchema).optional()
+});
+
+export const eventSummarySchema = eventSchema
+  .pick({
+    title: true,
+    company: true,
+    category: true,
+    eventStartDate: true,
+    eventEndDate: true,
+    website: true,
+    featuredImage: true
+  })
+  .extend({
+    id: event._id,
+    location: z.string().describe("City and country")
+  });
+
+export const eventDetailsSchema = z.object({
+  basic_info: eventSchema
+    .pick({ title: true, company: true, category: true, description: true })
+    .extend({ id: event._id }),
+  location: z.object({
+    venue: event.location,
+    city: event.city,
+    country: event.country
+  }),
+  dates: z.object({
+    start: event.eventStartDate,
+    end: event.eventEndDate
+  }),
+  links: eventSchema.pick({ website: true, featuredImage: true }),
+  social_links: eventSocialLinksSchema,
+  metadata: eventSchema.pick({ createdAt: true, updatedAt: true })
+});
+
+export const podcastSummarySchema = podcastItemSchema
+  .pick({
+    title: true,
+    company: true,
+    category: true,
+    likes: true,
+    views: true,
+    slug: true,
+    createdAt: true
+  })
+  .extend({
+    id: podcast.id,
+    image: podcastImageSchema.shape.url.optional(),
+    youtube: podcast.youtubeIframe
+  });
+
+export type CompanySummary = z.infer<typeof companySummarySchema>;
+export type TeamMemberSummary = z.infer<typeof teamMemberSummarySchema>;
+export type EventSummary = z.infer<typeof eventSummarySchema>;
+export type PodcastSummary = z.infer<typeof podcastSummarySchema>;
+
+export function toCompanySummary(company: Company): CompanySummary {
+  return {
+    _id: company._id,
+    name: company.name,
+    slug: company.slug,
+    category: company.category,
+    shortDescription: company.shortDescription,
+    logo: company.logo,
+    banner: company.banner,
+    founderName: company.founderName,
+    verificationStatus: company.verificationStatus,
+    url: company.url,
+    likes: company.likes,
+    views: company.views
+  };
+}
+
+export function toTeamMemberSummary(member: TeamMember): TeamMemberSummary {
+  return {
+    name: member.name,
+    title: member.title,
+    email: member.email,
+    linkedin: member.linkedinUrl,
+    image: member.image,
+    status: member.status,
+    followers: member.followers,
+    responseRate: member.responseRate,
+    price: member.price,
+    bookingMethods: member.bookingMethods
+  };
+}
+
+export function toEventSummary(event: Event): EventSummary {
+  return {
+    id: event._id,
+    title: event.title,
+    company: event.company,
+    category: event.category,
+    location: `${event.city}, ${event.country}`,
+    eventStartDate: event.eventStartDate,
+    eventEndDate: event.eventEndDate,
+    website: event.website,
+    featuredImage: event.featuredImage
+  };
+}
+
+export function toPodcastSummary(p: PodcastItem): PodcastSummary {
+  return {
+    id: p.id,
+    title: p.title,
+    company: p.company,
+    category: p.category,
+    image: p.image?.url,
+    youtube: p.youtubeIframe,
+    likes: p.likes,
+    views: p.views,
+    slug: p.slug,
+    createdAt: p.createdAt
+  };
+}
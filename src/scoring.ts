@@ -0,0 +1,270 @@
+// src/scoring.ts
+import { z } from "zod";
+import { normalizeText } from "./completion.js";
+import { Company, PodcastItem } from "./schemas.js";
+
+// Ranking scores for companies and podcasts. Every factor is normalized to 0..1
+// against the other entities of the same category, so the leader of a small
+// category ranks next to the leader of a crowded one. The score is the weighted
+// mean of the normalized factors on a 0-100 scale.
+
+const DAY_MS = 86_400_000;
+
+export const COMPANY_FACTORS = ["likes", "views", "verification", "promotion", "team_size", "founder_followers", "response_rate"] as const;
+export type CompanyFactor = typeof COMPANY_FACTORS[number];
+
+export const PODCAST_FACTORS = ["likes", "views", "recency"] as const;
+export type PodcastFactor = typeof PODCAST_FACTORS[number];
+
+// Orders accepted by the ranking tools: the score or a single factor
+export const COMPANY_SORTS = ["score", ...COMPANY_FACTORS] as const;
+export const PODCAST_SORTS = ["score", ...PODCAST_FACTORS] as const;
+
+const weight = z.number().nonnegative();
+
+export const companyWeightsSchema = z.object({
+  likes: weight,
+  views: weight,
+  verification: weight,
+  promotion: weight,
+  team_size: weight,
+  founder_followers: weight,
+  response_rate: weight
+}).strict();
+
+export const podcastWeightsSchema = z.object({
+  likes: weight,
+  views: weight,
+  recency: weight
+}).strict();
+
+export const scoringSchema = z.object({
+  companies: companyWeightsSchema,
+  podcasts: podcastWeightsSchema
+}).strict().superRefine((scoring, ctx) => {
+  for (const [section, weights] of Object.entries(scoring)) {
+    if (!Object.values<number>(weights).some(value => value > 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [section], message: "at least one weight must be greater than 0" });
+    }
+  }
+});
+
+export type CompanyWeights = z.infer<typeof companyWeightsSchema>;
+export type PodcastWeights = z.infer<typeof podcastWeightsSchema>;
+export type ScoringSettings = z.infer<typeof scoringSchema>;
+
+export const DEFAULT_SCORING: ScoringSettings = {
+  companies: { likes: 3, views: 2, verification: 2, promotion: 1, team_size: 1, founder_followers: 1, response_rate: 1 },
+  podcasts: { likes: 3, views: 2, recency: 1 }
+};
+
+export class ScoringError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScoringError";
+  }
+}
+
+export const factorScoreSchema = z.object({
+  factor: z.string(),
+  value: z.number().nullable().describe("The raw value, null when unknown"),
+  normalized: z.number().describe("0..1 relative to the category"),
+  weight: z.number(),
+  points: z.number().describe("Share of the score this factor contributed; the points of all factors add up to the score")
+});
+
+// Fields added to every scored item
+export const scoreShape = {
+  score: z.number().describe("Weighted score from 0 to 100"),
+  scoring: z.object({
+    category: z.string().describe("The category the factors were normalized within"),
+    peers: z.number().describe("Entities in that category, including this one"),
+    factors: z.array(factorScoreSchema),
+    explanation: z.string()
+  })
+};
+
+export type FactorScore = z.infer<typeof factorScoreSchema>;
+
+export interface Scored<T> {
+  item: T;
+  score: number;
+  scoring: {
+    category: string;
+    peers: number;
+    factors: FactorScore[];
+    explanation: string;
+  };
+}
+
+// log: counts with a long tail (likes, views), compared on a log scale so one viral
+// entry does not flatten everyone else; linear: rates; binary: already 0 or 1
+interface Factor<T> {
+  label: string;
+  scale: "log" | "linear" | "binary";
+  lowerIsBetter?: boolean;
+  value(item: T, now: number): number | null;
+}
+
+const companyFactors: Record<CompanyFactor, Factor<Company>> = {
+  likes: { label: "likes", scale: "log", value: company => company.likes },
+  views: { label: "views", scale: "log", value: company => company.views },
+  verification: { label: "verified", scale: "binary", value: company => company.verificationStatus === "verified" ? 1 : 0 },
+  promotion: { label: "promoted", scale: "binary", value: company => company.isPromoted ? 1 : 0 },
+  team_size: { label: "team members", scale: "log", value: company => company.teamMembers.length },
+  founder_followers: { label: "founder followers", scale: "log", value: company => company.founderFollowers },
+  // Mean over the founder and the team, as every one of them can be booked
+  response_rate: {
+    label: "response rate",
+    scale: "linear",
+    value: company => {
+      const rates = [company.founderResponseRate, ...company.teamMembers.map(member => member.responseRate)];
+      return rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+    }
+  }
+};
+
+const podcastFactors: Record<PodcastFactor, Factor<PodcastItem>> = {
+  likes: { label: "likes", scale: "log", value: podcast => podcast.likes },
+  views: { label: "views", scale: "log", value: podcast => podcast.views },
+  recency: {
+    label: "days since published",
+    scale: "linear",
+    lowerIsBetter: true,
+    value: (podcast, now) => {
+      const created = Date.parse(podcast.createdAt);
+      return Number.isNaN(created) ? null : Math.max(0, Math.floor((now - created) / DAY_MS));
+    }
+  }
+};
+
+// Configured weights with the per-call overrides applied
+export function resolveWeights<F extends string>(defaults: Record<F, number>, overrides: { [K in F]?: number | undefined } = {}): Record<F, number> {
+  const weights = { ...defaults };
+  for (const [factor, value] of Object.entries(overrides) as Array<[F, number | undefined]>) {
+    if (value === undefined) continue;
+    if (!(factor in defaults)) {
+      throw new ScoringError(`Unknown factor "${factor}". Known factors: ${Object.keys(defaults).join(", ")}`);
+    }
+    if (!Number.isFinite(value) || value < 0) {
+      throw new ScoringError(`Weight for ${factor} must be a number of at least 0, got ${value}`);
+    }
+    weights[factor] = value;
+  }
+  if (!Object.values<number>(weights).some(value => value > 0)) {
+    throw new ScoringError("At least one weight must be greater than 0");
+  }
+  return weights;
+}
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function scaled(factor: Factor<unknown>, value: number): number {
+  return factor.scale === "log" ? Math.log1p(Math.max(0, value)) : value;
+}
+
+// Min-max normalization of one factor over one category. Without any spread a known
+// value counts fully (binary factors keep their own 0 or 1), an unknown one not at all.
+function normalizer<T>(factor: Factor<T>, values: Array<number | null>): (value: number | null) => number {
+  if (factor.scale === "binary") return value => value ?? 0;
+  const known = values.filter((value): value is number => value !== null).map(value => scaled(factor, value));
+  const min = Math.min(...known);
+  const max = Math.max(...known);
+  return value => {
+    if (value === null) return 0;
+    if (max === min) return factor.lowerIsBetter || max > 0 ? 1 : 0;
+    const position = (scaled(factor, value) - min) / (max - min);
+    return factor.lowerIsBetter ? 1 - position : position;
+  };
+}
+
+function explain(score: number, category: string, peers: number, factors: FactorScore[], labels: Record<string, string>): string {
+  const parts = factors
+    .filter(factor => factor.weight > 0)
+    .sort((a, b) => b.points - a.points)
+    .map(factor => `${labels[factor.factor]} ${factor.value ?? "unknown"} (normalized ${round(factor.normalized, 2)}, weight ${factor.weight}: +${factor.points})`);
+  const within = peers > 1 ? `normalized among the ${peers} entries in "${category}"` : `the only entry in "${category}"`;
+  return `${score}/100, weighted mean of the factors ${within}: ${parts.join(", ")}`;
+}
+
+function scoreItems<T, F extends string>(
+  items: T[],
+  factors: Record<F, Factor<T>>,
+  weights: Record<F, number>,
+  categoryOf: (item: T) => string,
+  now: number
+): Scored<T>[] {
+  const names = Object.keys(factors) as F[];
+  const labels: Record<string, string> = Object.fromEntries(names.map(name => [name, factors[name].label]));
+  const totalWeight = names.reduce((sum, name) => sum + weights[name], 0);
+
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = normalizeText(categoryOf(item));
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  const scored = new Map<T, Scored<T>>();
+  for (const group of groups.values()) {
+    const values = names.map(name => group.map(item => factors[name].value(item, now)));
+    const normalize = names.map((name, i) => normalizer(factors[name], values[i]!));
+    const category = categoryOf(group[0]!) || "Uncategorized";
+
+    group.forEach((item, index) => {
+      const factorScores = names.map((name, i) => {
+        const value = values[i]![index]!;
+        const normalized = normalize[i]!(value);
+        return {
+          factor: name,
+          value: value === null ? null : round(value, 2),
+          normalized: round(normalized, 4),
+          weight: weights[name],
+          points: round(weights[name] * normalized / totalWeight * 100, 2)
+        };
+      });
+      const score = round(factorScores.reduce((sum, factor) => sum + weights[factor.factor as F] * factor.normalized, 0) / totalWeight * 100);
+      scored.set(item, {
+        item,
+        score,
+        scoring: { category, peers: group.length, factors: factorScores, explanation: explain(score, category, group.length, factorScores, labels) }
+      });
+    });
+  }
+  return items.map(item => scored.get(item)!);
+}
+
+// Highest first. A factor sorts by its raw value (newest first for recency), with the
+// score breaking ties; unknown values go last.
+function sortScored<T, F extends string>(scored: Scored<T>[], factors: Record<F, Factor<T>>, sortBy: F | "score"): Scored<T>[] {
+  if (sortBy === "score") return [...scored].sort((a, b) => b.score - a.score);
+  const direction = factors[sortBy].lowerIsBetter ? -1 : 1;
+  const valueOf = (entry: Scored<T>) => entry.scoring.factors.find(factor => factor.factor === sortBy)?.value ?? null;
+  return [...scored].sort((a, b) => {
+    const [x, y] = [valueOf(a), valueOf(b)];
+    if (x === null || y === null) return x === y ? b.score - a.score : x === null ? 1 : -1;
+    return direction * (y - x) || b.score - a.score;
+  });
+}
+
+export function rankCompanies(
+  companies: Company[],
+  weights: CompanyWeights,
+  sortBy: CompanyFactor | "score" = "score",
+  now = Date.now()
+): Scored<Company>[] {
+  return sortScored(scoreItems(companies, companyFactors, weights, company => company.category, now), companyFactors, sortBy);
+}
+
+export function rankPodcasts(
+  podcasts: PodcastItem[],
+  weights: PodcastWeights,
+  sortBy: PodcastFactor | "score" = "score",
+  now = Date.now()
+): Scored<PodcastItem>[] {
+  return sortScored(scoreItems(podcasts, podcastFactors, weights, podcast => podcast.category, now), podcastFactors, sortBy);
+}
+
+// e.g. "likes 3, views 2, recency 0"
+export function describeWeights(weights: Record<string, number>): string {
+  return Object.entries(weights).map(([factor, value]) => `${factor} ${value}`).join(", ");
+}
@@ -0,0 +1,398 @@
+// src/search.ts
+import { z } from "zod";
+import { BlockzaAPIClient } from "./client.js";
+import { editDistance, normalizeText } from "./completion.js";
+import { Company, Event, PodcastItem } from "./schemas.js";
+
+// BM25F parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Expanded query terms count for less than exact ones
+const PREFIX_FACTOR = 0.7;
+const FUZZY_FACTORS = [1, 0.5, 0.35];
+
+const SNIPPET_WORDS = 16;
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have", "in", "is", "it",
+  "of", "on", "or", "that", "the", "this", "to", "was", "what", "with"
+]);
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+export interface SearchField<T> {
+  name: string;
+  weight: number;
+  text: (item: T) => string | undefined | Array<string | undefined>;
+}
+
+export const highlightSchema = z.object({
+  field: z.string(),
+  snippet: z.string().describe("Text around the match, with matched words wrapped in **")
+});
+
+export const matchSchema = z.object({
+  score: z.number().describe("Relevance score; higher is better, only comparable within one search"),
+  highlights: z.array(highlightSchema)
+});
+
+export type Highlight = z.infer<typeof highlightSchema>;
+export type Match = z.infer<typeof matchSchema>;
+
+export interface SearchHit<T> {
+  item: T;
+  match: Match;
+}
+
+// Light suffix stripping, enough to match plurals and common verb forms
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  let stemmed = word;
+
+  if (stemmed.endsWith("ies") && stemmed.length > 4) stemmed = `${stemmed.slice(0, -3)}y`;
+  else if (/(s|x|z|ch|sh)es$/.test(stemmed)) stemmed = stemmed.slice(0, -2);
+  else if (stemmed.endsWith("s") && !/(ss|us|is)$/.test(stemmed)) stemmed = stemmed.slice(0, -1);
+
+  for (const suffix of ["ation", "ment", "ness", "ing", "ed"]) {
+    const base = stemmed.slice(0, -suffix.length);
+    if (stemmed.endsWith(suffix) && base.length >= 3 && /[aeiouy]/.test(base)) {
+      stemmed = suffix === "ation" ? `${base}ate` : base;
+      // running -> run
+      if (/([^aeiouylsz])\1$/.test(stemmed)) stemmed = stemmed.slice(0, -1);
+      break;
+    }
+  }
+
+  // exchange/exchanging -> exchang
+  if (stemmed.length > 3 && stemmed.endsWith("e")) stemmed = stemmed.slice(0, -1);
+  return stemmed;
+}
+
+function termOf(word: string): string | null {
+  const normalized = normalizeText(word);
+  return normalized && !STOPWORDS.has(normalized) ? stem(normalized) : null;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.match(WORD) ?? []).map(termOf).filter((term): term is string => term !== null);
+}
+
+function fieldText<T>(field: SearchField<T>, item: T): string {
+  const value = field.text(item);
+  return (Array.isArray(value) ? value.filter(Boolean).join(", ") : value) ?? "";
+}
+
+// Wraps matched words in ** and trims long text to a window around the first match
+function highlight(text: string, terms: Set<string>): string | null {
+  const words = Array.from(text.matchAll(WORD));
+  const matched = words.map(word => terms.has(termOf(word[0]) ?? ""));
+  const first = matched.indexOf(true);
+  if (first === -1) return null;
+
+  const start = Math.max(0, Math.min(first - 5, words.length - SNIPPET_WORDS));
+  const end = Math.min(words.length, start + SNIPPET_WORDS);
+  let snippet = "";
+  let cursor = words[start]!.index!;
+  for (let i = start; i < end; i++) {
+    const word = words[i]!;
+    snippet += text.slice(cursor, word.index) + (matched[i] ? `**${word[0]}**` : word[0]);
+    cursor = word.index! + word[0].length;
+  }
+  if (end === words.length) snippet += text.slice(cursor);
+  return `${start > 0 ? "…" : ""}${snippet.trim()}${end < words.length ? "…" : ""}`;
+}
+
+// In-memory inverted index ranked with BM25F: term frequencies are weighted per
+// field and normalized by field length before saturation. Query terms also match
+// indexed terms they prefix and terms within a small edit distance.
+export class SearchIndex<T> {
+  // term -> document -> frequency per field
+  private postings = new Map<string, Map<number, number[]>>();
+  private lengths: number[][] = [];
+  private averageLengths: number[];
+
+  constructor(private items: T[], private fields: SearchField<T>[]) {
+    const totals = fields.map(() => 0);
+
+    items.forEach((item, doc) => {
+      this.lengths[doc] = fields.map((field, f) => {
+        const terms = tokenize(fieldText(field, item));
+        for (const term of terms) {
+          let docs = this.postings.get(term);
+          if (!docs) this.postings.set(term, docs = new Map());
+          let frequencies = docs.get(doc);
+          if (!frequencies) docs.set(doc, frequencies = fields.map(() => 0));
+          frequencies[f]!++;
+        }
+        totals[f]! += terms.length;
+        return terms.length;
+      });
+    });
+
+    this.averageLengths = totals.map(total => items.length ? total / items.length || 1 : 1);
+  }
+
+  // Indexed terms a query term should match, with how much each counts
+  private expand(term: string): Array<[string, number]> {
+    const expansions: Array<[string, number]> = [];
+    const allowed = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+    for (const candidate of this.postings.keys()) {
+      if (candidate === term) {
+        expansions.push([candidate, 1]);
+      } else if (term.length >= 3 && candidate.startsWith(term)) {
+        expansions.push([candidate, PREFIX_FACTOR]);
+      } else if (allowed > 0 && Math.abs(candidate.length - term.length) <= allowed) {
+        const distance = editDistance(term, candidate);
+        if (distance <= allowed) expansions.push([candidate, FUZZY_FACTORS[distance]!]);
+      }
+    }
+    return expansions;
+  }
+
+  private termScore(frequencies: number[], doc: number): number {
+    let weighted = 0;
+    this.fields.forEach((field, f) => {
+      const tf = frequencies[f]!;
+      if (tf === 0) return;
+      const norm = 1 - B + B * (this.lengths[doc]![f]! / this.averageLengths[f]!);
+      weighted += field.weight * tf / norm;
+    });
+    return weighted / (K1 + weighted);
+  }
+
+  search(query: string): SearchHit<T>[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const scores = new Map<number, number>();
+    const matchedTerms = new Map<number, Set<string>>();
+
+    for (const queryTerm of queryTerms) {
+      // Each query term counts once per document, through its best expansion
+      const best = new Map<number, { score: number; term: string }>();
+      for (const [term, factor] of this.expand(queryTerm)) {
+        const docs = this.postings.get(term)!;
+        const idf = Math.log(1 + (this.items.length - docs.size + 0.5) / (docs.size + 0.5));
+        for (const [doc, frequencies] of docs) {
+          const score = idf * this.termScore(frequencies, doc) * factor;
+          if (score > (best.get(doc)?.score ?? 0)) best.set(doc, { score, term });
+        }
+      }
+      for (const [doc, { score, term }] of best) {
+        scores.set(doc, (scores.get(doc) ?? 0) + score);
+        let terms = matchedTerms.get(doc);
+        if (!terms) matchedTerms.set(doc, terms = new Set());
+        terms.add(term);
+      }
+    }
+
+    return Array.from(scores)
+      .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+      .map(([doc, score]) => {
+        const item = this.items[doc]!;
+        const terms = matchedTerms.get(doc)!;
+        const highlights: Highlight[] = [];
+        for (const field of this.fields) {
+          const snippet = highlight(fieldText(field, item), terms);
+          if (snippet) highlights.push({ field: field.name, snippet });
+        }
+        return { item, match: { score: Math.round(score * 1000) / 1000, highlights } };
+      });
+  }
+}
+
+export const companySearchFields: SearchField<Company>[] = [
+  { name: "name", weight: 5, text: c => c.name },
+  { name: "category", weight: 2, text: c => c.category },
+  { name: "shortDescription", weight: 1.5, text: c => c.shortDescription },
+  { name: "founderName", weight: 1, text: c => c.founderName },
+  { name: "detail", weight: 1, text: c => c.detail }
+];
+
+export const eventSearchFields: SearchField<Event>[] = [
+  { name: "title", weight: 5, text: e => e.title },
+  { name: "company", weight: 2, text: e => e.company },
+  { name: "category", weight: 2, text: e => e.category },
+  { name: "location", weight: 1.5, text: e => [e.city, e.country, e.location] },
+  { name: "description", weight: 1, text: e => e.description }
+];
+
+export const podcastSearchFields: SearchField<PodcastItem>[] = [
+  { name: "title", weight: 5, text: p => p.title },
+  { name: "company", weight: 2, text: p => p.company },
+  { name: "category", weight: 2, text: p => p.category },
+  { name: "shortDescription", weight: 1.5, text: p => p.shortDescription },
+  { name: "description", weight: 1, text: p => p.description }
+];
+
+// Indexes are built lazily and kept for as long as the (cached) item array lives
+const indexes = new WeakMap<object, WeakMap<object, SearchIndex<unknown>>>();
+
+export function searchItems<T>(items: T[], fields: SearchField<T>[], query: string): SearchHit<T>[] {
+  let byItems = indexes.get(fields);
+  if (!byItems) indexes.set(fields, byItems = new WeakMap());
+  let index = byItems.get(items) as SearchIndex<T> | undefined;
+  if (!index) {
+    index = new SearchIndex(items, fields);
+    byItems.set(items, index as SearchIndex<unknown>);
+  }
+  return index.search(query);
+}
+
+// The index only sees the records the API listed, which api.defaults.limit or the API's own
+// page size can cap. Records the API's own search found beyond that cap are added, so they
+// are ranked too; the listed array is kept (with its cached index) when nothing is missing.
+export function withSearchHits<T>(listed: T[], searched: T[], idOf: (item: T) => string): T[] {
+  const ids = new Set(listed.map(idOf));
+  const missing = searched.filter(item => !ids.has(idOf(item)));
+  return missing.length ? [...listed, ...missing] : listed;
+}
+
+// Ranked hits for a non-blank query; otherwise every item in its original order, without match info
+export function rankItems<T>(items: T[], fields: SearchField<T>[], query?: string): Array<{ item: T; match?: Match }> {
+  return query?.trim() ? searchItems(items, fields, query) : items.map(item => ({ item }));
+}
+
+// Cross-entity search
+
+export const ENTITY_TYPES = ["company", "event", "podcast"] as const;
+export type EntityType = typeof ENTITY_TYPES[number];
+
+type Entity =
+  | { type: "company"; item: Company }
+  | { type: "event"; item: Event }
+  | { type: "podcast"; item: PodcastItem };
+
+export function entityUri(entity: Entity): string {
+  switch (entity.type) {
+    case "company": return `blockza://company/${encodeURIComponent(entity.item.slug)}`;
+    case "event": return `blockza://event/${encodeURIComponent(entity.item.id)}`;
+    case "podcast": return `blockza://podcast/${encodeURIComponent(entity.item.id)}`;
+  }
+}
+
+function byType<R>(entity: Entity, company: (c: Company) => R, event: (e: Event) => R, podcast: (p: PodcastItem) => R): R {
+  switch (entity.type) {
+    case "company": return company(entity.item);
+    case "event": return event(entity.item);
+    case "podcast": return podcast(entity.item);
+  }
+}
+
+// One index over all three types, so scores are comparable across them
+const entitySearchFields: SearchField<Entity>[] = [
+  { name: "title", weight: 5, text: entity => byType(entity, c => c.name, e => e.title, p => p.title) },
+  { name: "organization", weight: 2, text: entity => byType(entity, () => undefined, e => e.company, p => p.company) },
+  { name: "category", weight: 2, text: entity => entity.item.category },
+  { name: "location", weight: 1.5, text: entity => byType(entity, () => undefined, e => [e.city, e.country, e.location], () => undefined) },
+  { name: "summary", weight: 1.5, text: entity => byType(entity, c => c.shortDescription, () => undefined, p => p.shortDescription) },
+  { name: "description", weight: 1, text: entity => byType(entity, c => c.detail, e => e.description, p => p.description) }
+];
+
+export const searchResultSchema = z.object({
+  type: z.enum(ENTITY_TYPES),
+  id: z.string(),
+  uri: z.string().describe("Resource URI with the full record"),
+  title: z.string(),
+  subtitle: z.string()
+}).merge(matchSchema);
+
+export type SearchResult = z.infer<typeof searchResultSchema>;
+
+export interface DirectorySearchOptions {
+  types?: EntityType[];
+  limit?: number;
+  // Maximum results per type
+  quotas?: Partial<Record<EntityType, number>>;
+}
+
+export interface DirectorySearch {
+  query: string;
+  results: SearchResult[];
+  // Matches per type before the limit and quotas were applied
+  total_matches: Record<EntityType, number>;
+  // Types whose API could not be reached; the search covers the others
+  unavailable: Array<{ type: EntityType; error: string }>;
+}
+
+function toSearchResult(entity: Entity, match: Match): SearchResult {
+  return {
+    type: entity.type,
+    id: byType(entity, c => c.slug, e => e.id, p => p.id),
+    uri: entityUri(entity),
+    title: byType(entity, c => c.name, e => e.title, p => p.title),
+    subtitle: byType(
+      entity,
+      c => [c.category, c.verificationStatus === "verified" ? "verified" : ""].filter(Boolean).join(", "),
+      e => [[e.city, e.country].filter(Boolean).join(", "), e.eventStartDate.slice(0, 10)].filter(Boolean).join(", "),
+      p => [p.company, p.category].filter(Boolean).join(", ")
+    ),
+    ...match
+  };
+}
+
+const NONE: never[] = [];
+let lastEntityIndex: { sources: unknown[][]; index: SearchIndex<Entity> } | undefined;
+
+// Reuses the combined index while all three source arrays are the same cached ones
+function entityIndex(companies: Company[], events: Event[], podcasts: PodcastItem[]): SearchIndex<Entity> {
+  const sources = [companies, events, podcasts];
+  if (lastEntityIndex && lastEntityIndex.sources.every((source, i) => source === sources[i])) {
+    return lastEntityIndex.index;
+  }
+  const entities: Entity[] = [
+    ...companies.map(item => ({ type: "company" as const, item })),
+    ...events.map(item => ({ type: "event" as const, item })),
+    ...podcasts.map(item => ({ type: "podcast" as const, item }))
+  ];
+  const index = new SearchIndex(entities, entitySearchFields);
+  lastEntityIndex = { sources, index };
+  return index;
+}
+
+// Fetches the selected types in parallel and merges them into one ranked list.
+// Listings may be capped, so each type also sends the query upstream and adds the
+// API's hits before ranking. A type whose API fails is reported in `unavailable`;
+// only if all fail is it an error.
+export async function searchDirectory(apiClient: BlockzaAPIClient, query: string, options: DirectorySearchOptions = {}): Promise<DirectorySearch> {
+  const types = options.types?.length ? options.types : ENTITY_TYPES;
+  const load = <T>(type: EntityType, fetch: (search?: string) => Promise<T[]>, idOf: (item: T) => string) =>
+    types.includes(type)
+      ? Promise.all([fetch(), fetch(query)]).then(([listed, searched]) => withSearchHits(listed, searched, idOf))
+      : Promise.resolve(NONE as T[]);
+
+  const settled = await Promise.allSettled([
+    load("company", async search => (await apiClient.getCompanies(search ? { search } : undefined)).data ?? [], company => company._id),
+    load("event", search => apiClient.getEvents(search ? { search } : undefined), event => event._id),
+    load("podcast", search => apiClient.getPodcasts(search ? { search } : undefined), podcast => podcast.id)
+  ]);
+
+  const unavailable: DirectorySearch["unavailable"] = [];
+  const sources = settled.map((result, i) => {
+    if (result.status === "fulfilled") return result.value;
+    unavailable.push({ type: ENTITY_TYPES[i]!, error: String(result.reason) });
+    return NONE;
+  });
+  if (unavailable.length === types.length) {
+    throw new Error(`Search failed: ${unavailable.map(entry => `${entry.type}: ${entry.error}`).join("; ")}`);
+  }
+
+  const hits = entityIndex(sources[0] as Company[], sources[1] as Event[], sources[2] as PodcastItem[]).search(query);
+  const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+  const total_matches: Record<EntityType, number> = { company: 0, event: 0, podcast: 0 };
+  const taken: Record<EntityType, number> = { company: 0, event: 0, podcast: 0 };
+  const results: SearchResult[] = [];
+
+  for (const { item: entity, match } of hits) {
+    total_matches[entity.type]++;
+    const quota = options.quotas?.[entity.type];
+    if (results.length >= limit || (quota !== undefined && taken[entity.type] >= quota)) continue;
+    taken[entity.type]++;
+    results.push(toSearchResult(entity, match));
+  }
+
+  return { query, results, total_matches, unavailable };
+}
@@ -0,0 +1,82 @@
+// src/server.ts
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, ListResourcesRequestSchema, McpError, Resource } from "@modelcontextprotocol/sdk/types.js";
+import { accessGuard, AccessPolicy } from "./auth.js";
+import { BlockzaAPIClient } from "./client.js";
+import { SnapshotHistory } from "./history.js";
+import { CursorError, MAX_PAGE_SIZE, paginate } from "./pagination.js";
+import { registerPrompts } from "./prompts.js";
+import { registerResources, TrackedResource } from "./resources.js";
+import { DEFAULT_SCORING, ScoringSettings } from "./scoring.js";
+import { DirectoryPoller, enableSubscriptions } from "./subscriptions.js";
+import { registerTools } from "./tools.js";
+
+// Process-wide background services shared by every connection; each is optional
+export interface ServerServices {
+  poller?: DirectoryPoller;
+  history?: SnapshotHistory;
+}
+
+// Whether a URI names one of the resources registered under the access policy
+function isServedUri(tracked: TrackedResource[], uri: string): boolean {
+  return tracked.some(({ uri: staticUri, registered }) => registered.enabled &&
+    ("resourceTemplate" in registered ? registered.resourceTemplate.uriTemplate.match(uri) !== null : staticUri === uri));
+}
+
+// Replaces the SDK's resources/list handler, which returns every template entry
+// at once, with one that pages through static resources and template listings.
+function pageResourceList(server: McpServer, tracked: TrackedResource[]) {
+  if (tracked.length === 0) return;
+
+  server.server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+    const resources: Resource[] = [];
+
+    for (const { uri, registered } of tracked) {
+      if (!registered.enabled) continue;
+
+      if ("resourceTemplate" in registered) {
+        const listCallback = registered.resourceTemplate.listCallback;
+        if (!listCallback) continue;
+        try {
+          const result = await listCallback(extra);
+          resources.push(...result.resources.map(resource => ({ ...registered.metadata, ...resource })));
+        } catch (error) {
+          console.error(`Failed to list resources for ${registered.resourceTemplate.uriTemplate}:`, error);
+        }
+      } else if (uri) {
+        resources.push({ uri, name: registered.name, ...registered.metadata });
+      }
+    }
+
+    try {
+      const cursor = request.params?.cursor;
+      const page = paginate(resources, resource => resource.uri, { ...(cursor && { cursor }), pageSize: MAX_PAGE_SIZE });
+      return { resources: page.items, ...(page.next_cursor && { nextCursor: page.next_cursor }) };
+    } catch (error) {
+      if (error instanceof CursorError) throw new McpError(ErrorCode.InvalidParams, error.message);
+      throw error;
+    }
+  });
+}
+
+// One McpServer per connection; the API client (and its cache) and the services are shared
+export function createServer(
+  apiClient: BlockzaAPIClient,
+  access: AccessPolicy = {},
+  services: ServerServices = {},
+  scoring: ScoringSettings = DEFAULT_SCORING
+): McpServer {
+  const server = new McpServer({
+    name: "blockza-directory",
+    version: "1.0.0",
+  });
+
+  const allowed = accessGuard(access);
+  const resources = registerResources(server, apiClient, allowed);
+  registerTools(server, apiClient, allowed, scoring, services.history);
+  registerPrompts(server, apiClient, allowed, scoring);
+  pageResourceList(server, resources);
+  if (services.poller) enableSubscriptions(server, services.poller, uri => isServedUri(resources, uri));
+
+  return server;
+}
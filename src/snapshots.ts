@@ -0,0 +1,139 @@
+// src/snapshots.ts
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { BlockzaAPIClient } from "./client.js";
+import { eventStatus } from "./events.js";
+import { buildCompanyGraph, Linked } from "./links.js";
+import { Company, Event, PodcastItem } from "./schemas.js";
+import { ENTITY_TYPES, entityUri } from "./search.js";
+
+// The fields of an entity that change reports compare
+export const entityRecordSchema = z.object({
+  type: z.enum(ENTITY_TYPES),
+  id: z.string(),
+  uri: z.string(),
+  name: z.string(),
+  category: z.string(),
+  verificationStatus: z.string().optional().describe("Companies only"),
+  likes: z.number().optional().describe("Companies and podcasts only"),
+  views: z.number().optional().describe("Companies and podcasts only")
+});
+export type EntityRecord = z.infer<typeof entityRecordSchema>;
+
+// What the directory looked like at one point, as a content fingerprint per resource URI
+export interface DirectorySnapshot {
+  taken_at: string;
+  resources: Record<string, string>;
+  // URIs of individual company, event and podcast records, as enumerated by resources/list
+  entities: string[];
+}
+
+export interface SnapshotDiff {
+  // Resources whose content changed, including ones that appeared or disappeared
+  updated: string[];
+  added: string[];
+  removed: string[];
+}
+
+function fingerprint(value: unknown): string {
+  return createHash("sha1").update(JSON.stringify(value)).digest("base64url").slice(0, 16);
+}
+
+const categoriesOf = (items: Array<{ category: string }>) =>
+  Array.from(new Set(items.map(item => item.category).filter(Boolean))).sort();
+
+const linkedFingerprint = <T extends { id: string }>(items: Linked<T>[]) =>
+  fingerprint(items.map(({ item, link }) => [item.id, fingerprint(item), link.method, link.confidence]));
+
+// The fields history compares, without the fingerprints and link graph of a full snapshot
+export function entityRecords(companies: Company[], events: Event[], podcasts: PodcastItem[]): EntityRecord[] {
+  return [
+    ...companies.map(company => ({
+      type: "company" as const,
+      id: company._id,
+      uri: entityUri({ type: "company", item: company }),
+      name: company.name,
+      category: company.category,
+      verificationStatus: company.verificationStatus,
+      likes: company.likes,
+      views: company.views
+    })),
+    ...events.map(event => ({
+      type: "event" as const,
+      id: event.id,
+      uri: entityUri({ type: "event", item: event }),
+      name: event.title,
+      category: event.category
+    })),
+    ...podcasts.map(podcast => ({
+      type: "podcast" as const,
+      id: podcast.id,
+      uri: entityUri({ type: "podcast", item: podcast }),
+      name: podcast.title,
+      category: podcast.category,
+      likes: podcast.likes,
+      views: podcast.views
+    }))
+  ];
+}
+
+// Fingerprints every resource whose content comes from the three list endpoints.
+// Collections hash their members' fingerprints, so any member change shows up on the collection too.
+export function buildSnapshot(companies: Company[], events: Event[], podcasts: PodcastItem[], now = new Date()): DirectorySnapshot {
+  const resources: Record<string, string> = {};
+  const entities: string[] = [];
+  const add = <T>(items: T[], uriOf: (item: T) => string, collection: string) => {
+    const members = items.map(item => {
+      const uri = uriOf(item);
+      resources[uri] = fingerprint(item);
+      entities.push(uri);
+      return [uri, resources[uri]];
+    });
+    resources[collection] = fingerprint(members);
+  };
+
+  add(companies, item => entityUri({ type: "company", item }), "blockza://companies");
+  add(events, item => entityUri({ type: "event", item }), "blockza://events");
+  add(podcasts, item => entityUri({ type: "podcast", item }), "blockza://podcasts");
+
+  resources["blockza://events/upcoming"] = fingerprint(
+    events.filter(event => eventStatus(event, now.getTime()) !== "past").map(event => resources[entityUri({ type: "event", item: event })])
+  );
+  // Filtered exports are notified through their base URI, like paged views
+  resources["blockza://events/calendar.ics"] = resources["blockza://events"]!;
+  resources["blockza://categories"] = fingerprint(categoriesOf(companies));
+  resources["blockza://events/categories"] = fingerprint(categoriesOf(events));
+  resources["blockza://podcasts/categories"] = fingerprint(categoriesOf(podcasts));
+
+  const { activity } = buildCompanyGraph(companies, events, podcasts);
+  for (const company of companies) {
+    const linked = activity.get(company._id);
+    if (!linked) continue;
+    const base = entityUri({ type: "company", item: company });
+    if (linked.events.length) resources[`${base}/events`] = linkedFingerprint(linked.events);
+    if (linked.podcasts.length) resources[`${base}/podcasts`] = linkedFingerprint(linked.podcasts);
+  }
+
+  return { taken_at: now.toISOString(), resources, entities };
+}
+
+export async function takeSnapshot(apiClient: BlockzaAPIClient): Promise<DirectorySnapshot> {
+  const [data, events, podcasts] = await Promise.all([apiClient.getCompanies(), apiClient.getEvents(), apiClient.getPodcasts()]);
+  return buildSnapshot(data.data ?? [], events, podcasts);
+}
+
+export async function takeEntityRecords(apiClient: BlockzaAPIClient): Promise<EntityRecord[]> {
+  const [data, events, podcasts] = await Promise.all([apiClient.getCompanies(), apiClient.getEvents(), apiClient.getPodcasts()]);
+  return entityRecords(data.data ?? [], events, podcasts);
+}
+
+export function diffSnapshots(previous: DirectorySnapshot, next: DirectorySnapshot): SnapshotDiff {
+  const uris = new Set([...Object.keys(previous.resources), ...Object.keys(next.resources)]);
+  const before = new Set(previous.entities);
+  const after = new Set(next.entities);
+  return {
+    updated: Array.from(uris).filter(uri => previous.resources[uri] !== next.resources[uri]),
+    added: next.entities.filter(uri => !before.has(uri)),
+    removed: previous.entities.filter(uri => !after.has(uri))
+  };
+}
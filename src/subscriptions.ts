@@ -0,0 +1,101 @@
+// src/subscriptions.ts
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError, SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { BlockzaAPIClient } from "./client.js";
+import { diffSnapshots, DirectorySnapshot, SnapshotDiff, takeSnapshot } from "./snapshots.js";
+
+export type SnapshotListener = (diff: SnapshotDiff) => void;
+
+// Snapshots the directory on an interval while anyone is listening and reports
+// what changed between polls. Reads go through the client's response cache, so a
+// change upstream is seen once the cached response expires, without extra requests.
+export class DirectoryPoller {
+  private listeners = new Set<SnapshotListener>();
+  private timer: NodeJS.Timeout | undefined;
+  private last: DirectorySnapshot | undefined;
+  private polling = false;
+
+  constructor(private apiClient: BlockzaAPIClient, private intervalMs: number) {}
+
+  // Starts polling with the first listener and stops after the last one leaves
+  listen(listener: SnapshotListener): () => void {
+    this.listeners.add(listener);
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+      this.timer.unref();
+      void this.poll();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.timer) {
+        clearInterval(this.timer);
+        this.timer = undefined;
+      }
+    };
+  }
+
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const next = await takeSnapshot(this.apiClient);
+      const previous = this.last;
+      this.last = next;
+      if (!previous) return;
+
+      const diff = diffSnapshots(previous, next);
+      if (diff.updated.length === 0) return;
+      for (const listener of this.listeners) {
+        try {
+          listener(diff);
+        } catch (error) {
+          console.error("Snapshot listener failed:", error);
+        }
+      }
+    } catch (error) {
+      // Keep the previous snapshot; an outage is not a change
+      console.error("Directory poll failed:", error);
+    } finally {
+      this.polling = false;
+    }
+  }
+}
+
+// Paged views such as blockza://companies?page_size=10 change with their collection
+const baseUri = (uri: string) => uri.split("?")[0]!;
+
+// Adds resources/subscribe and resources/unsubscribe to one connection. Subscribed
+// URIs get notifications/resources/updated when their content changes, and the
+// client gets notifications/resources/list_changed when entities come or go.
+// URIs outside the connection's access policy cannot be subscribed to.
+export function enableSubscriptions(server: McpServer, poller: DirectoryPoller, isServed: (uri: string) => boolean) {
+  const subscribed = new Set<string>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    const { uri } = request.params;
+    if (!isServed(uri)) throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
+    subscribed.add(uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscribed.delete(request.params.uri);
+    return {};
+  });
+
+  const stop = poller.listen(diff => {
+    if (!server.isConnected()) return;
+    const updated = new Set(diff.updated);
+    for (const uri of subscribed) {
+      if (!updated.has(baseUri(uri))) continue;
+      server.server.sendResourceUpdated({ uri }).catch(error => console.error(`Failed to notify ${uri}:`, error));
+    }
+    if (diff.added.length > 0 || diff.removed.length > 0) server.sendResourceListChanged();
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    stop();
+    onclose?.();
+  };
+}
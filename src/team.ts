@@ -0,0 +1,112 @@
+// src/team.ts
+import { z } from "zod";
+import { normalizeText } from "./completion.js";
+import { Company, TeamMember } from "./schemas.js";
+import { tokenize } from "./search.js";
+
+// Search over the team members of every company at once
+
+// Title abbreviations, expanded on both sides so "CTO" finds "Chief Technology Officer"
+// and "head of business development" finds "Head of BD"
+const ROLE_ABBREVIATIONS: Record<string, string> = {
+  ceo: "chief executive officer",
+  cto: "chief technology officer",
+  cfo: "chief financial officer",
+  coo: "chief operating officer",
+  cmo: "chief marketing officer",
+  cpo: "chief product officer",
+  cio: "chief information officer",
+  cso: "chief strategy officer",
+  cco: "chief commercial officer",
+  vp: "vice president",
+  svp: "senior vice president",
+  evp: "executive vice president",
+  bd: "business development",
+  bizdev: "business development",
+  cofounder: "co founder",
+  pr: "public relations",
+  hr: "human resources"
+};
+
+export const TEAM_SORTS = ["response_rate", "price", "followers", "name"] as const;
+export type TeamSort = typeof TEAM_SORTS[number];
+
+export const teamMemberFilterArgs = {
+  role: z.string().optional().describe("Role or title keywords, e.g. 'CTO' or 'Head of BD'; every word must appear in the title. Separate alternatives with commas ('CTO, VP Engineering')"),
+  min_price: z.number().nonnegative().optional().describe("Lowest booking price"),
+  max_price: z.number().nonnegative().optional().describe("Highest booking price, e.g. 200 for 'under $200'"),
+  booking_method: z.string().optional().describe("Only members bookable this way (e.g. 'zoom', 'telegram')"),
+  min_response_rate: z.number().nonnegative().optional().describe("Minimum response rate, on the same scale as responseRate (e.g. 80)"),
+  status: z.string().optional().describe("Member status (e.g. 'active')"),
+  category: z.string().optional().describe("Company category (e.g. 'DeFi')"),
+  verified_only: z.boolean().optional().describe("Only members of verified companies")
+};
+
+export type TeamMemberFilter = { [K in keyof typeof teamMemberFilterArgs]?: z.infer<typeof teamMemberFilterArgs[K]> };
+
+export interface CompanyMember {
+  company: Company;
+  member: TeamMember;
+}
+
+export class TeamFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TeamFilterError";
+  }
+}
+
+// Plurals such as "CTOs" or "VPs" expand too
+function roleTerms(text: string): Set<string> {
+  const expanded = text.replace(/[\p{L}\p{N}]+/gu, word => {
+    const normalized = normalizeText(word);
+    return ROLE_ABBREVIATIONS[normalized] ?? ROLE_ABBREVIATIONS[normalized.replace(/s$/, "")] ?? word;
+  });
+  return new Set(tokenize(expanded));
+}
+
+// A title matches when it has every word of at least one of the alternatives
+function roleMatcher(role: string): (title: string) => boolean {
+  const alternatives = role.split(/,|\||\/|\bor\b/i).map(roleTerms).filter(terms => terms.size > 0);
+  if (alternatives.length === 0) return () => true;
+  return title => {
+    const terms = roleTerms(title);
+    return alternatives.some(alternative => Array.from(alternative).every(term => terms.has(term)));
+  };
+}
+
+// Company category and verification are filtered upstream; the rest applies to each member.
+// A price of 0 means no price is listed, so such members drop out once a price bound is set.
+export function filterTeamMembers(companies: Company[], filter: TeamMemberFilter): CompanyMember[] {
+  const { min_price: minPrice, max_price: maxPrice } = filter;
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    throw new TeamFilterError("min_price must not be greater than max_price");
+  }
+  const matchesRole = filter.role ? roleMatcher(filter.role) : () => true;
+  const method = filter.booking_method ? normalizeText(filter.booking_method) : "";
+  const status = filter.status ? normalizeText(filter.status) : "";
+  const priced = minPrice !== undefined || maxPrice !== undefined;
+
+  return companies.flatMap(company => company.teamMembers
+    .filter(member =>
+      matchesRole(member.title) &&
+      (!priced || (member.price > 0 && member.price >= (minPrice ?? 0) && member.price <= (maxPrice ?? Infinity))) &&
+      (!method || member.bookingMethods.some(candidate => normalizeText(candidate).includes(method))) &&
+      (filter.min_response_rate === undefined || member.responseRate >= filter.min_response_rate) &&
+      (!status || normalizeText(member.status) === status))
+    .map(member => ({ company, member })));
+}
+
+// Best response rate, lowest price (unpriced last) and most followers come first;
+// ties fall back to the response rate and then the name
+export function sortTeamMembers(members: CompanyMember[], sortBy: TeamSort = "response_rate"): CompanyMember[] {
+  const price = (member: TeamMember) => member.price > 0 ? member.price : Infinity;
+  const primary: Record<TeamSort, (a: TeamMember, b: TeamMember) => number> = {
+    response_rate: (a, b) => b.responseRate - a.responseRate,
+    price: (a, b) => price(a) - price(b) || 0,
+    followers: (a, b) => b.followers - a.followers,
+    name: (a, b) => a.name.localeCompare(b.name)
+  };
+  return [...members].sort(({ member: a }, { member: b }) =>
+    primary[sortBy](a, b) || b.responseRate - a.responseRate || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,220 @@
+// src/timeframe.ts
+import { z } from "zod";
+
+// Natural-language timeframes ("next weekend", "in the next 6 weeks", "Q1 2027",
+// "March", "2026-11-01 to 2026-11-15") resolved to a date range. Everything is
+// computed in UTC, like event dates; weeks start on Monday. A quarter, month or day
+// given without a year is the next one to come round, counting the current one.
+
+const DAY_MS = 86_400_000;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12
+};
+
+const EXAMPLES = `"next weekend", "in the next 6 weeks", "Q1 2027", "March 2027" or "2026-11-01 to 2026-11-15"`;
+
+export class TimeframeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimeframeError";
+  }
+}
+
+export const timeframeSchema = z.object({
+  phrase: z.string().describe("The timeframe as given"),
+  start: z.string().describe("First moment of the range (ISO 8601, UTC)"),
+  end: z.string().describe("Last moment of the range (ISO 8601, UTC), inclusive")
+});
+export type Timeframe = z.infer<typeof timeframeSchema>;
+
+// Epoch ms, both ends inclusive
+interface Range {
+  start: number;
+  end: number;
+}
+
+type Unit = "day" | "week" | "month" | "year";
+
+const days = (start: number, count: number): Range => ({ start, end: start + count * DAY_MS - 1 });
+const month = (year: number, index: number): Range => ({ start: Date.UTC(year, index, 1), end: Date.UTC(year, index + 1, 1) - 1 });
+const months = (year: number, index: number, count: number): Range =>
+  ({ start: Date.UTC(year, index, 1), end: Date.UTC(year, index + count, 1) - 1 });
+
+// Moves a day forward or back by whole units; month and year steps keep the day of
+// the month where it exists and otherwise use the last day (Jan 31 + 1 month = Feb 28)
+function addUnits(day: number, unit: Unit, count: number): number {
+  if (unit === "day" || unit === "week") return day + count * (unit === "week" ? 7 : 1) * DAY_MS;
+  const date = new Date(day);
+  const year = date.getUTCFullYear() + (unit === "year" ? count : 0);
+  const index = date.getUTCMonth() + (unit === "month" ? count : 0);
+  const lastDay = new Date(Date.UTC(year, index + 1, 0)).getUTCDate();
+  return Date.UTC(year, index, Math.min(date.getUTCDate(), lastDay));
+}
+
+function parseCount(text: string): number | null {
+  const count = /^\d+$/.test(text) ? Number(text) : NUMBER_WORDS[text];
+  return count && count > 0 ? count : null;
+}
+
+// "mar", "march" and "sept" all name a month
+function monthIndex(text: string): number | null {
+  if (text.length < 3) return null;
+  const index = MONTHS.findIndex(name => name.startsWith(text) || (text === "sept" && name === "september"));
+  return index === -1 ? null : index;
+}
+
+// Relative to today: "this week", "next weekend", "last quarter", ...
+function relativePeriod(which: string, period: string, today: number): Range | null {
+  const shift = which === "next" ? 1 : which === "last" ? -1 : 0;
+  const date = new Date(today);
+  const year = date.getUTCFullYear();
+  const index = date.getUTCMonth();
+  const weekday = date.getUTCDay();
+
+  switch (period) {
+    case "week":
+      return days(today - ((weekday + 6) % 7) * DAY_MS + shift * 7 * DAY_MS, 7);
+    case "weekend": {
+      // "this weekend" is the current weekend on Saturday and Sunday, otherwise the
+      // coming one. On a weekday "next weekend" means that coming one too; only on
+      // the weekend itself does it move a week ahead.
+      const saturday = weekday === 0 ? today - DAY_MS : today + (6 - weekday) * DAY_MS;
+      const onWeekend = weekday === 0 || weekday === 6;
+      return days(saturday + (shift === 1 && !onWeekend ? 0 : shift) * 7 * DAY_MS, 2);
+    }
+    case "month":
+      return month(year, index + shift);
+    case "quarter":
+      return months(year, (Math.floor(index / 3) + shift) * 3, 3);
+    case "year":
+      return months(year + shift, 0, 12);
+  }
+  return null;
+}
+
+// One period, without "to"/"between" ranges
+function parsePeriod(text: string, today: number): Range | null {
+  const year = new Date(today).getUTCFullYear();
+  let match: RegExpExecArray | null;
+
+  if (text === "today") return days(today, 1);
+  if (text === "tomorrow") return days(today + DAY_MS, 1);
+  if (text === "yesterday") return days(today - DAY_MS, 1);
+  if (text === "weekend") return relativePeriod("this", "weekend", today);
+
+  if ((match = /^(this|next|last|coming) (week|weekend|month|quarter|year)$/.exec(text))) {
+    return relativePeriod(match[1] === "coming" ? "this" : match[1]!, match[2]!, today);
+  }
+
+  // "next 3 months", "in the next 6 weeks", "within two weeks", "past 30 days"
+  if ((match = /^(?:in |within |over |during )?(?:the )?(next|coming|past|last)? ?(\w+) (day|week|month|year)s?$/.exec(text))) {
+    const count = parseCount(match[2]!);
+    const unit = match[3] as Unit;
+    if (count !== null && (match[1] || /^(?:within|in the|over the)/.test(text))) {
+      if (match[1] === "past" || match[1] === "last") {
+        return { start: addUnits(today + DAY_MS, unit, -count), end: today + DAY_MS - 1 };
+      }
+      return { start: today, end: addUnits(today, unit, count) - 1 };
+    }
+  }
+
+  if ((match = /^q([1-4])(?: (\d{4}))?$/.exec(text)) || (match = /^(\d{4}) q([1-4])$/.exec(text))) {
+    const [quarter, quarterYear] = match[0].startsWith("q") ? [match[1]!, match[2]] : [match[2]!, match[1]];
+    const resolve = (candidateYear: number) => months(candidateYear, (Number(quarter) - 1) * 3, 3);
+    if (quarterYear) return resolve(Number(quarterYear));
+    const thisYear = resolve(year);
+    return thisYear.end >= today ? thisYear : resolve(year + 1);
+  }
+
+  if ((match = /^(\d{4})$/.exec(text))) return months(Number(match[1]), 0, 12);
+  // Date.UTC rolls overflowing months and days into the next ones, so they are checked first
+  if ((match = /^(\d{4})-(\d{2})$/.exec(text))) {
+    const index = Number(match[2]) - 1;
+    return index >= 0 && index < 12 ? month(Number(match[1]), index) : null;
+  }
+  if ((match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text))) {
+    const index = Number(match[2]) - 1;
+    const day = Date.UTC(Number(match[1]), index, Number(match[3]));
+    const date = new Date(day);
+    return date.getUTCMonth() === index && date.getUTCDate() === Number(match[3]) ? days(day, 1) : null;
+  }
+
+  // "march", "march 2027", "march 15", "march 15 2027", "15 march 2027"
+  if ((match = /^([a-z]+)(?: (\d{1,2}))?(?: (\d{4}))?$/.exec(text)) || (match = /^(\d{1,2}) ([a-z]+)(?: (\d{4}))?$/.exec(text))) {
+    const [name, day] = /^\d/.test(match[1]!) ? [match[2]!, match[1]] : [match[1]!, match[2]];
+    const index = monthIndex(name);
+    if (index === null) return null;
+    const resolve = (candidateYear: number): Range | null => {
+      if (!day) return month(candidateYear, index);
+      const date = Date.UTC(candidateYear, index, Number(day));
+      return new Date(date).getUTCMonth() === index ? days(date, 1) : null;
+    };
+    if (match[3]) return resolve(Number(match[3]));
+    const thisYear = resolve(year);
+    return thisYear && thisYear.end >= today ? thisYear : resolve(year + 1);
+  }
+
+  return null;
+}
+
+// Why a phrase that parsed to nothing cannot be used, for phrases people often try
+function unsupportedReason(text: string): string | null {
+  const point = /^in (\w+) (day|week|month|year)s?$/.exec(text);
+  if (point && parseCount(point[1]!) !== null) {
+    return `it names a single day rather than a range; try "in the next ${point[1]} ${point[2]}s" or "within ${point[1]} ${point[2]}s"`;
+  }
+  const weekday = text.split(" ").find(word => WEEKDAYS.some(name => word.length >= 3 && name.startsWith(word.replace(/s$/, ""))));
+  if (weekday) {
+    return `weekday names such as "${weekday}" are not supported; give a date ("2026-11-06"), "this week" or "next weekend"`;
+  }
+  return null;
+}
+
+const RANGE_PATTERNS = [
+  /^(?:between|from) (.+?) (?:and|to|until|till|through|thru|-) (.+)$/,
+  /^(.+?) (?:to|until|till|through|thru|-) (.+)$/,
+  /^(.+?)\.\.(.+)$/
+];
+
+// Resolves a timeframe phrase against `now`. Explicit ranges ("March to May 2027",
+// "between 2026-11-01 and 2026-11-15") run from the start of the first period to the
+// end of the second; a year on the second period also applies to the first.
+export function parseTimeframe(phrase: string, now = new Date()): Timeframe {
+  const text = phrase.toLowerCase().replace(/,/g, " ").replace(/[–—]/g, "-").replace(/\s+/g, " ").trim();
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+
+  let range = parsePeriod(text, today);
+  for (const pattern of RANGE_PATTERNS) {
+    if (range) break;
+    const match = pattern.exec(text);
+    if (!match) continue;
+    const [first, second] = [match[1]!.trim(), match[2]!.trim()];
+    const end = parsePeriod(second, today);
+    const yearOfEnd = /\b(\d{4})$/.exec(second)?.[1];
+    const start = (yearOfEnd && !/\d{4}/.test(first) && parsePeriod(`${first} ${yearOfEnd}`, today)) || parsePeriod(first, today);
+    if (!start || !end) continue;
+    if (end.end < start.start) {
+      throw new TimeframeError(`Timeframe "${phrase}" ends before it starts`);
+    }
+    range = { start: start.start, end: end.end };
+  }
+
+  if (!range) {
+    const reason = unsupportedReason(text);
+    if (reason) throw new TimeframeError(`Could not use timeframe "${phrase}": ${reason}`);
+    throw new TimeframeError(`Could not understand timeframe "${phrase}". Try phrases like ${EXAMPLES}`);
+  }
+  return { phrase, start: new Date(range.start).toISOString(), end: new Date(range.end).toISOString() };
+}
+
+// e.g. `"next weekend" (2026-10-24 to 2026-10-25)`
+export function describeTimeframe(timeframe: Timeframe): string {
+  const [start, end] = [timeframe.start.slice(0, 10), timeframe.end.slice(0, 10)];
+  return `"${timeframe.phrase}" (${start === end ? start : `${start} to ${end}`})`;
+}
@@ -0,0 +1,1651 @@
+// src/tools.ts
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AccessGuard } from "./auth.js";
+import { BlockzaAPIClient } from "./client.js";
+import {
+  calendarName,
+  calendarUri,
+  describeEventFilter,
+  eventDateArgs,
+  EventDateFilter,
+  eventFilterArgs,
+  eventLocationArgs,
+  eventStatus,
+  EventTiming,
+  eventTiming,
+  eventTimingSchema,
+  filterEventDates,
+  hasDateFilter,
+  selectEvents
+} from "./events.js";
+import { EXPORT_ENTITIES, EXPORT_FORMATS, exportEntities, exportFilterArgs } from "./export.js";
+import { distanceKm, eventCity, findPlace } from "./geo.js";
+import { compareSnapshots, directoryChangesSchema, SnapshotHistory } from "./history.js";
+import { eventsToIcs, ICS_MIME_TYPE } from "./ics.js";
+import { ACTIVITY_TYPES, activityFeed, activityItemSchema, getCompanyActivity } from "./links.js";
+import { Continent, CONTINENTS, locationMatcher, normalizeLocation } from "./locations.js";
+import { describePage, MAX_PAGE_SIZE, Page, pageArgs, paginate, paginationInfo, paginationSchema } from "./pagination.js";
+import { resolutionSchema, unresolvedMessage } from "./resolver.js";
+import {
+  companyDetailsSchema,
+  Event,
+  CompanySummary,
+  companySummarySchema,
+  eventDetailsSchema,
+  EventSummary,
+  eventSummarySchema,
+  podcastItemSchema,
+  PodcastSummary,
+  podcastSummarySchema,
+  teamMemberSummarySchema,
+  toCompanySummary,
+  toEventSummary,
+  toPodcastSummary,
+  toTeamMemberSummary
+} from "./schemas.js";
+import {
+  COMPANY_SORTS,
+  companyWeightsSchema,
+  describeWeights,
+  PODCAST_SORTS,
+  podcastWeightsSchema,
+  rankCompanies,
+  rankPodcasts,
+  resolveWeights,
+  ScoringSettings,
+  scoreShape
+} from "./scoring.js";
+import {
+  companySearchFields,
+  DEFAULT_SEARCH_LIMIT,
+  entityUri,
+  ENTITY_TYPES,
+  eventSearchFields,
+  Match,
+  matchSchema,
+  MAX_SEARCH_LIMIT,
+  podcastSearchFields,
+  rankItems,
+  searchDirectory,
+  withSearchHits,
+  searchResultSchema
+} from "./search.js";
+import { filterTeamMembers, sortTeamMembers, TEAM_SORTS, teamMemberFilterArgs } from "./team.js";
+import { describeTimeframe, parseTimeframe, timeframeSchema } from "./timeframe.js";
+
+// Output schemas, shared by tools that return the same kind of list. Items carry
+// a `match` (score and highlights) when the list came from a text search.
+const matched = { match: matchSchema.optional() };
+const companyListOutput = { companies: z.array(companySummarySchema.extend(matched)), pagination: paginationSchema };
+const eventListOutput = { events: z.array(eventSummarySchema.extend(eventTimingSchema.shape).extend(matched)), pagination: paginationSchema };
+const eventSearchOutput = { ...eventListOutput, timeframe: timeframeSchema.optional().describe("The resolved `timeframe` argument") };
+const nearbyOutput = {
+  center: z.object({ name: z.string(), latitude: z.number(), longitude: z.number() }),
+  radius_km: z.number(),
+  timeframe: timeframeSchema.optional().describe("The resolved `timeframe` argument"),
+  events: z.array(eventSummarySchema.extend(eventTimingSchema.shape).extend({ distance_km: z.number() })).describe("Nearest first"),
+  unlocated: z.number().describe("Events in the date range whose city is not in the gazetteer, so their distance is unknown"),
+  pagination: paginationSchema
+};
+const podcastListOutput = { podcasts: z.array(podcastSummarySchema.extend(matched)), pagination: paginationSchema };
+
+// Ranked lists; `rank` counts from the top of the whole list, across pages
+const ranked = { rank: z.number(), ...scoreShape };
+const topCompaniesOutput = {
+  sort_by: z.enum(COMPANY_SORTS),
+  weights: companyWeightsSchema.describe("The weights used, after overrides"),
+  companies: z.array(companySummarySchema.extend(ranked)),
+  pagination: paginationSchema
+};
+const topPodcastsOutput = {
+  sort_by: z.enum(PODCAST_SORTS),
+  weights: podcastWeightsSchema.describe("The weights used, after overrides"),
+  podcasts: z.array(podcastSummarySchema.extend(ranked)),
+  pagination: paginationSchema
+};
+
+const searchAllOutput = {
+  query: z.string(),
+  results: z.array(searchResultSchema),
+  total_matches: z.object({ company: z.number(), event: z.number(), podcast: z.number() }),
+  unavailable: z.array(z.object({ type: z.enum(ENTITY_TYPES), error: z.string() }))
+};
+
+const companyDetailsOutput = { ...companyDetailsSchema.shape, resolution: resolutionSchema };
+const teamOutput = { company: z.string(), team_members: z.array(teamMemberSummarySchema), resolution: resolutionSchema };
+const teamSearchOutput = {
+  team_members: z.array(teamMemberSummarySchema.extend({
+    company: z.object({ slug: z.string(), name: z.string(), category: z.string(), verified: z.boolean(), uri: z.string() })
+  })),
+  pagination: paginationSchema
+};
+
+const activityOutput = {
+  company: z.object({ slug: z.string(), name: z.string(), uri: z.string() }),
+  resolution: resolutionSchema,
+  counts: z.object({ events: z.number(), podcasts: z.number() }),
+  feed: z.array(activityItemSchema),
+  pagination: paginationSchema,
+  unavailable: z.array(z.object({ type: z.enum(ACTIVITY_TYPES), error: z.string() }))
+};
+
+const changesOutput = {
+  from: z.object({ requested: z.string(), snapshot_at: z.string() }),
+  to: z.object({ requested: z.string().nullable(), snapshot_at: z.string(), live: z.boolean().describe("True when compared against current data rather than a stored snapshot") }),
+  counts: z.object({
+    added: z.number(),
+    removed: z.number(),
+    verification_changes: z.number(),
+    category_moves: z.number(),
+    engagement_changes: z.number()
+  }).describe("Totals before `limit` is applied"),
+  ...directoryChangesSchema.shape
+};
+
+const icsOutput = {
+  event_count: z.number(),
+  filename: z.string(),
+  mime_type: z.literal(ICS_MIME_TYPE),
+  resource_uri: z.string().describe("Resource that returns the same calendar, for re-reading or subscribing"),
+  ics: z.string().describe("The iCalendar (RFC 5545) file")
+};
+
+const exportOutput = {
+  entity: z.enum(EXPORT_ENTITIES),
+  format: z.enum(EXPORT_FORMATS),
+  mime_type: z.string(),
+  filename: z.string(),
+  columns: z.array(z.string()),
+  row_count: z.number(),
+  resource_uri: z.string().describe("Resource that returns the same export"),
+  content: z.string().describe("The exported file")
+};
+
+const names = z.array(z.string());
+const circuitStatus = z.object({ state: z.enum(["closed", "open", "half-open"]), consecutiveFailures: z.number() });
+
+const directoryStatsOutput = {
+  total_companies: z.number(),
+  verified_companies: z.number(),
+  promoted_companies: z.number(),
+  companies_with_affiliate_programs: z.number(),
+  total_categories: z.number(),
+  categories: names,
+  total_likes: z.number(),
+  total_views: z.number(),
+  average_likes_per_company: z.number(),
+  average_views_per_company: z.number()
+};
+
+const eventsStatsOutput = {
+  total_events: z.number(),
+  upcoming_events: z.number().describe("Events that have not started"),
+  ongoing_events: z.number().describe("Events in progress"),
+  past_events: z.number(),
+  total_categories: z.number(),
+  categories: names,
+  total_countries: z.number(),
+  countries: names.describe("Normalized country names; 'USA' and 'United States' count once"),
+  total_cities: z.number(),
+  cities: names.describe("Normalized city names"),
+  total_companies: z.number(),
+  companies: names,
+  by_country: z.array(z.object({
+    name: z.string(),
+    code: z.string().nullable().describe("ISO 3166-1 alpha-2, null when not recognized"),
+    continent: z.enum(CONTINENTS).nullable(),
+    events: z.number()
+  })).describe("Most events first"),
+  by_continent: z.array(z.object({ continent: z.enum(CONTINENTS), events: z.number() })).describe("Most events first"),
+  unrecognized_countries: names.describe("Country values that could not be normalized, as given")
+};
+
+const podcastsStatsOutput = {
+  total_podcasts: z.number(),
+  total_categories: z.number(),
+  categories: names,
+  total_companies: z.number(),
+  companies: names,
+  total_likes: z.number(),
+  total_views: z.number(),
+  average_likes: z.number(),
+  average_views: z.number()
+};
+
+const refreshCacheOutput = {
+  refreshed: z.enum(["directory", "events", "podcasts", "all"]),
+  cleared_entries: z.number(),
+  cache: z.object({
+    enabled: z.boolean(),
+    entries: z.number(),
+    maxEntries: z.number(),
+    hits: z.number(),
+    staleHits: z.number(),
+    misses: z.number(),
+    evictions: z.number()
+  }),
+  upstream: z.object({ directory: circuitStatus, events: circuitStatus, podcasts: circuitStatus })
+};
+
+// Pairs structured content with its text summary; the value is typed by the
+// tool's output schema so the two are checked together at compile time
+function toolResult<T extends z.ZodRawShape>(_schema: T, structuredContent: z.infer<z.ZodObject<T>>, text: string) {
+  return {
+    content: [{ type: "text" as const, text }],
+    structuredContent
+  };
+}
+
+function listSummary<T>(heading: string, page: Page<T>, line: (item: T) => string): string {
+  const lines = page.items.map((item, i) => `${page.offset + i + 1}. ${line(item)}`);
+  return [`${heading} ${describePage(page)}`.trim(), ...lines].join("\n");
+}
+
+function formatDate(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toISOString().slice(0, 10);
+}
+
+// Status and day counts are computed against one clock per request
+const timedSummary = (event: Event, now: number) => ({ ...toEventSummary(event), ...eventTiming(event, now) });
+
+// e.g. ` (ongoing, starting from 2026-11-01)`
+function dateNote(filter: EventDateFilter): string {
+  const described = describeEventFilter(filter);
+  return described ? ` (${described})` : "";
+}
+
+// The best highlight of a search hit, shown under its result line
+function matchNote(match?: Pick<Match, "highlights">): string {
+  const first = match?.highlights[0];
+  return first ? `\n   ${first.field}: ${first.snippet}` : "";
+}
+
+type Matched<T> = T & { match?: Match };
+
+const companyLine = (c: Matched<CompanySummary>) =>
+  `${c.name} (${c.slug}) - ${c.category}${c.verificationStatus === "verified" ? ", verified" : ""}${matchNote(c.match)}`;
+const eventLine = (e: Matched<EventSummary & EventTiming>) =>
+  `${e.title} - ${e.location}, ${formatDate(e.eventStartDate)} to ${formatDate(e.eventEndDate)}${e.status === "upcoming" ? "" : ` (${e.status})`} (id ${e.id})${matchNote(e.match)}`;
+const podcastLine = (p: Matched<PodcastSummary>) =>
+  `${p.title}${p.company ? ` - ${p.company}` : ""} (id ${p.id})${matchNote(p.match)}`;
+
+// e.g. `1. BitMart (bitmart) - score 81.2` with the explanation below it
+const scoreNote = (entry: { score: number; scoring: { explanation: string } }) =>
+  ` - score ${entry.score}\n   ${entry.scoring.explanation}`;
+
+export function registerTools(server: McpServer, apiClient: BlockzaAPIClient, allowed: AccessGuard, scoring: ScoringSettings, history?: SnapshotHistory) {
+  if (allowed("tools", "search_companies")) server.registerTool(
+    "search_companies",
+    {
+      title: "Search Companies by Name",
+      description: "Search companies in the Blockza directory by name or general search terms, ranked by relevance with typo tolerance. For category-specific searches, use get_companies_by_category instead.",
+      inputSchema: {
+        search: z.string().optional().describe("Search terms matched against name (strongest), category, description, founder and details"),
+        category: z.string().optional().describe("Filter by company category (e.g., 'Crypto Exchanges', 'AI') - NOTE: For dedicated category searches, use get_companies_by_category tool"),
+        limit: z.number().int().positive().max(MAX_PAGE_SIZE).optional().describe("Maximum number of results to return"),
+        verified_only: z.boolean().optional().describe("Show only verified companies"),
+        ...pageArgs
+      },
+      outputSchema: companyListOutput
+    },
+    async ({ search, category, limit, verified_only, cursor, page_size }) => {
+      try {
+        // Filter out undefined values to satisfy exactOptionalPropertyTypes
+        const params: {
+          search?: string;
+          category?: string;
+          limit?: number;
+          verified?: boolean;
+        } = {};
+
+        // Text search ranks locally, so the upstream list must not be cut short by the limit
+        if (category !== undefined) params.category = category;
+        if (limit !== undefined && !search) params.limit = limit;
+        if (verified_only !== undefined) params.verified = verified_only;
+
+        const [data, searched] = await Promise.all([
+          apiClient.getCompanies(params),
+          search ? apiClient.getCompanies({ ...params, search }) : undefined
+        ]);
+
+        if (!data.success) {
+          return {
+            content: [{
+              type: "text",
+              text: "Failed to search companies: API returned unsuccessful response"
+            }],
+            isError: true
+          };
+        }
+
+        const companies = withSearchHits(data.data || [], searched?.data ?? [], company => company._id);
+        const ranked = rankItems(companies, companySearchFields, search).slice(0, limit);
+        const results = ranked.map(({ item, match }) => ({ ...toCompanySummary(item), ...(match && { match }) }));
+        const page = paginate(results, company => company._id, { cursor, pageSize: page_size });
+
+        return toolResult(
+          companyListOutput,
+          { companies: page.items, pagination: paginationInfo(page) },
+          listSummary(`Found ${page.total} companies matching your search criteria.`, page, companyLine)
+        );
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error searching companies: ${error}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "get_company_details")) server.registerTool(
+    "get_company_details",
+    {
+      title: "Get Company Details",
+      description: "Get detailed information about a specific company by slug, name, website or social handle. Returns ranked candidates instead of guessing when the identifier is ambiguous",
+      inputSchema: {
+        identifier: z.string().describe("Company slug, name, website domain or social handle (e.g. 'bitmart', 'BitMart', 'bitmart.com', '@BitMartExchange')"),
+        include_team: z.boolean().optional().describe("Include team member information")
+      },
+      outputSchema: companyDetailsOutput
+    },
+    async ({ identifier, include_team = false }) => {
+      try {
+        const resolution = await apiClient.resolveCompany(identifier);
+
+        if (!resolution.match) {
+          return {
+            content: [{
+              type: "text",
+              text: unresolvedMessage(resolution)
+            }],
+            isError: true
+          };
+        }
+
+        const { company, method, confidence } = resolution.match;
+
+        const details = {
+          basic_info: {
+            name: company.name,
+            slug: company.slug,
+            category: company.category,
+            shortDescription: company.shortDescription,
+            detail: company.detail,
+            logo: company.logo,
+            banner: company.banner,
+            url: company.url,
+            verificationStatus: company.verificationStatus
+          },
+          founder: {
+            name: company.founderName,
+            details: company.founderDetails,
+            email: company.founderEmail,
+            image: company.founderImage,
+            followers: company.founderFollowers,
+            responseRate: company.founderResponseRate
+          },
+          social_links: company.socialLinks,
+          promotion_settings: company.promotionSettings,
+          stats: {
+            likes: company.likes,
+            views: company.views,
+            followerPrice: company.followerPrice
+          },
+          ...(include_team && { team_members: company.teamMembers }),
+          resolution: { method, confidence }
+        };
+
+        const summary = [
+          `${company.name} (${company.slug}) - ${company.category}, ${company.verificationStatus || "unverified"}`,
+          company.shortDescription,
+          `Founder: ${company.founderName || "unknown"}`,
+          `Website: ${company.url || "none"}`,
+          `Likes: ${company.likes ?? 0}, views: ${company.views ?? 0}`,
+          ...(include_team ? [`Team members: ${company.teamMembers?.length ?? 0}`] : []),
+          ...(method !== "slug" ? [`Matched "${identifier}" by ${method} (confidence ${confidence})`] : [])
+        ].filter(Boolean).join("\n");
+
+        return toolResult(companyDetailsOutput, details, summary);
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error getting company details: ${error}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "get_companies_by_category")) server.registerTool(
+    "get_companies_by_category",
+    {
+      title: "Get Companies by Category",
+      description: "PRIMARY TOOL for retrieving all companies in a specific category. Use this tool when users ask for companies by category (Web3, NFT, Blockchain, AI, etc.). This provides the most comprehensive and accurate category-based results.",
+      inputSchema: {
+        category: z.string().describe("Category to filter by (e.g., 'Web3', 'NFT', 'Blockchain', 'Crypto Exchanges', 'AI', 'DeFi', 'Metaverse')"),
+        limit: z.number().int().positive().max(MAX_PAGE_SIZE).optional().describe("Maximum number of results to return"),
+        ...pageArgs
+      },
+      outputSchema: companyListOutput
+    },
+    async ({ category, limit, cursor, page_size }) => {
+      try {
+        const companies = await apiClient.getCompaniesByCategory(category);
+        const results = limit ? companies.slice(0, limit) : companies;
+
+        const summary = results.map(toCompanySummary);
+        const page = paginate(summary, company => company._id, { cursor, pageSize: page_size });
+
+        return toolResult(
+          companyListOutput,
+          { companies: page.items, pagination: paginationInfo(page) },
+          listSummary(`Found ${page.total} companies in category "${category}".`, page, companyLine)
+        );
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error getting companies by category: ${error}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "get_top_companies")) server.registerTool(
+    "get_top_companies",
+    {
+      title: "Get Top Companies",
+      description: "Rank companies by a weighted score of likes, views, verification, promotion, team size, founder followers and response rate. Each factor is normalized within the company's category, and every score comes with an explanation of how it was computed.",
+      inputSchema: {
+        category: z.string().optional().describe("Only rank companies in this category; scores are normalized within each category either way"),
+        sort_by: z.enum(COMPANY_SORTS).optional().describe("Order by the score (default) or by the raw value of one factor"),
+        weights: companyWeightsSchema.partial().optional().describe('Weight overrides for this call, e.g. { "likes": 5, "promotion": 0 }; factors left out keep their configured weights'),
+        limit: z.number().int().positive().max(MAX_PAGE_SIZE).optional().describe("Maximum number of results to return"),
+        ...pageArgs
+      },
+      outputSchema: topCompaniesOutput
+    },
+    async ({ category, sort_by = "score", weights, limit, cursor, page_size }) => {
+      try {
+        const applied = resolveWeights(scoring.companies, weights);
+        const data = await apiClient.getCompanies(category ? { category } : undefined);
+
+        if (!data.success) {
+          return {
+            content: [{
+              type: "text",
+              text: "Failed to rank companies: API returned unsuccessful response"
+            }],
+            isError: true
+          };
+        }
+
+        const results = rankCompanies(data.data || [], applied, sort_by)
+          .slice(0, limit)
+          .map(({ item, score, scoring: details }, i) => ({ ...toCompanySummary(item), rank: i + 1, score, scoring: details }));
+        const page = paginate(results, company => company._id, { cursor, pageSize: page_size });
+
+        return toolResult(
+          topCompaniesOutput,
+          { sort_by, weights: applied, companies: page.items, pagination: paginationInfo(page) },
+          listSummary(
+            `Top ${page.total} companies${category ? ` in "${category}"` : ""} by ${sort_by} (weights: ${describeWeights(applied)}).`,
+            page,
+            c => `${c.name} (${c.slug}) - ${c.category}${scoreNote(c)}`
+          )
+        );
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error ranking companies: ${error}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "get_team_members")) server.registerTool(
+    "get_team_members",
+    {
+      title: "Get Team Members",
+      description: "Get team member information for a specific company",
+      inputSchema: {
+        company_slug: z.string().describe("Company slug to get team members for (a name, website or social handle also works)")
+      },
+      outputSchema: teamOutput
+    },
+    async ({ company_slug }) => {
+      try {
+        const resolution = await apiClient.resolveCompany(company_slug);
+
+        if (!resolution.match) {
+          return {
+            content: [{
+              type: "text",
+              text: unresolvedMessage(resolution)
+            }],
+            isError: true
+          };
+        }
+
+        const { company, method, confidence } = resolution.match;
+        const teamInfo = {
+          company: company.name,
+          team_members: (company.teamMembers || []).map(toTeamMemberSummary),
+          resolution: { method, confidence }
+        };
+
+        if (teamInfo.team_members.length === 0) {
+          return toolResult(teamOutput, teamInfo, `No team members found for ${company.name}`);
+        }
+
+        const lines = teamInfo.team_members.map((member, i) =>
+          `${i + 1}. ${member.name}${member.title ? ` - ${member.title}` : ""}${member.status ? ` (${member.status})` : ""}`
+        );
+        return toolResult(
+          teamOutput,
+          teamInfo,
+          [`Found ${teamInfo.team_members.length} team members for ${teamInfo.company}.`, ...lines].join("\n")
+        );
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error getting team members: ${error}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "search_team_members")) server.registerTool(
+    "search_team_members",
+    {
+      title: "Search Team Members",
+      description: "Find people across every company's team at once, by role or title, booking price, booking method, response rate, status and company category. For one company's team, use get_team_members instead.",
+      inputSchema: {
+        ...teamMemberFilterArgs,
+        sort_by: z.enum(TEAM_SORTS).optional().describe("response_rate (default, highest first), price (lowest first), followers (most first) or name"),
+        limit: z.number().int().positive().max(MAX_PAGE_SIZE).optional().describe("Maximum number of results to return"),
+        ...pageArgs
+      },
+      outputSchema: teamSearchOutput
+    },
+    async ({ sort_by, limit, cursor, page_size, ...filter }) => {
+      try {
+        const data = await apiClient.getCompanies({
+          ...(filter.category && { category: filter.category }),
+          ...(filter.verified_only !== undefined && { verified: filter.verified_only })
+        });
+
+        if (!data.success) {
+          return {
+            content: [{
+              type: "text",
+              text: "Failed to search team members: API returned unsuccessful response"
+            }],
+            isError: true
+          };
+        }
+
+        const results = sortTeamMembers(filterTeamMembers(data.data || [], filter), sort_by).slice(0, limit);
+        // Members are only unique within a company
+        const page = paginate(results, ({ company, member }) => `${company._id}/${member._id || member.name}`, { cursor, pageSize: page_size });
+        const members = page.items.map(({ company, member }) => ({
+          ...toTeamMemberSummary(member),
+          company: {
+            slug: company.slug,
+            name: company.name,
+            category: company.category,
+            verified: company.verificationStatus === "verified",
+            uri: entityUri({ type: "company", item: company })
+          }
+        }));
+
+        return toolResult(
+          teamSearchOutput,
+          { team_members: members, pagination: paginationInfo(page) },
+          listSummary(`Found ${page.total} team members.`, { ...page, items: members }, m =>
+            `${m.name}${m.title ? ` - ${m.title}` : ""} at ${m.company.name} (${m.company.category})` +
+            `: ${m.price > 0 ? `price ${m.price}` : "no price listed"}, response rate ${m.responseRate}` +
+            `${m.bookingMethods.length ? `, via ${m.bookingMethods.join(", ")}` : ""}`)
+        );
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error searching team members: ${error}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "get_directory_stats")) server.registerTool(
+    "get_directory_stats",
+    {
+      title: "Get Directory Statistics",
+      description: "Get overall statistics about the Blockza directory",
+      inputSchema: {},
+      outputSchema: directoryStatsOutput
+    },
+    async () => {
+      try {
+        const data = await apiClient.getCompanies();
+
+        if (!data.success) {
+          return {
+            content: [{
+              type: "text",
+              text: "Failed to get directory statistics"
+            }],
+            isError: true
+          };
+        }
+
+        const companies = data.data || [];
+        const categories = new Set<string>();
+        const verifiedCount = companies.filter(c => c.verificationStatus === 'verified').length;
+        const promotedCount = companies.filter(c => c.isPromoted).length;
+        const withAffiliateProgram = companies.filter(c => c.promotionSettings?.hasAffiliateProgram).length;
+        const totalLikes = companies.reduce((sum, c) => sum + (c.likes || 0), 0);
+        const totalViews = companies.reduce((sum, c) => sum + (c.views || 0), 0);
+
+        companies.forEach(c => {
+          if (c.category) categories.add(c.category);
+        });
+
+        const stats = {
+          total_companies: companies.length,
+          verified_companies: verifiedCount,
+          promoted_companies: promotedCount,
+          companies_with_affiliate_programs: withAffiliateProgram,
+          total_categories: categories.size,
+          categories: Array.from(categories).sort(),
+          total_likes: totalLikes,
+          total_views: totalViews,
+          average_likes_per_company: companies.length > 0 ? +(totalLikes / companies.length).toFixed(2) : 0,
+          average_views_per_company: companies.length > 0 ? +(totalViews / companies.length).toFixed(2) : 0
+        };
+
+        return toolResult(
+          directoryStatsOutput,
+          stats,
+          `The directory lists ${stats.total_companies} companies (${stats.verified_companies} verified, ${stats.promoted_companies} promoted) across ${stats.total_categories} categories, with ${stats.total_likes} likes and ${stats.total_views} views in total.`
+        );
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error getting directory statistics: ${error}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Events Tools
+  if (allowed("tools", "search_events")) server.registerTool(
+    "search_events",
+    {
+      title: "Search Events",
+      description: "Search events in the Blockza events directory by title, category, location, or other criteria",
+      inputSchema: {
+        search: z.string().optional().describe("Search terms matched against title (strongest), organizer, category, location and description; results are ranked by relevance"),
+        category: z.string().optional().describe("Filter by event category (e.g., 'Conference', 'Meetup')"),
+        ...eventLocationArgs,
+        limit: z.number().int().positive().max(MAX_PAGE_SIZE).optional().describe("Maximum number of results to return"),
+        upcoming_only: z.boolean().optional().describe("Show only events that have not ended (upcoming or ongoing); use status for one or the other"),
+        timeframe: z.string().optional().describe("Only events starting within this timeframe, e.g. 'next weekend', 'in the next 6 weeks', 'Q1 2027', 'March', '2026-11-01 to 2026-11-15'; dates are in UTC"),
+        ...eventDateArgs,
+        ...pageArgs
+      },
+      outputSchema: eventSearchOutput
+    },
+    async ({ search, category, country, city, region, limit, upcoming_only, timeframe, cursor, page_size, ...dates }) => {
+      try {
+        const params: {
+          search?: string;
+          category?: string;
+          limit?: number;
+        } = {};
+
+        if (category !== undefined) params.category = category;
+        // Local filters run after the fetch, so the API can only apply the limit without them
+        const local = search || upcoming_only || timeframe || country || city || region || hasDateFilter(dates);
+        if (limit !== undefined && !local) params.limit = limit;
+
+        const now = Date.now();
+        const range = timeframe ? parseTimeframe(timeframe, new Date(now)) : undefined;
+        const matchesLocation = locationMatcher({ country, city, region });
+        const [listed, searched] = await Promise.all([
+          apiClient.getEvents(params),
+          search ? apiClient.getEvents({ ...params, search }) : []
+        ]);
+        const events = withSearchHits(listed, searched, event => event.id);
+
+        let filteredEvents = filterEventDates(events.filter(matchesLocation), dates, now);
+        if (range) {
+          filteredEvents = filterEventDates(filteredEvents, { start_after: range.start, start_before: range.end }, now);
+        }
+        if (upcoming_only) {
+          filteredEvents = filteredEvents.filter(event => eventStatus(event, now) !== "past");
+        }
+
+        const ranked = rankItems(filteredEvents, eventSearchFields, search).slice(0, limit);
+        const results = ranked.map(({ item, match }) => ({ ...timedSummary(item, now), ...(match && { match }) }));
+        const page = paginate(results, event => event.id, { cursor, pageSize: page_size });
+
+        return toolResult(
+          eventSearchOutput,
+          { events: page.items, pagination: paginationInfo(page), ...(range && { timeframe: range }) },
+          listSummary(`Found ${page.total} events matching your search criteria${range ? `, starting ${describeTimeframe(range)}` : ""}.`, page, eventLine)
+        );
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error searching events: ${error}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "get_event_details")) server.registerTool(
+    "get_event_details",
+    {
+      title: "Get Event Details",
+      description: "Get detailed information about a specific event by ID",
+      inputSchema: {
+        event_id: z.string().describe("Event ID to look up")
+      },
+      outputSchema: eventDetailsSchema.shape
+    },
+    async ({ event_id }) => {
+      try {
+        const event = await apiClient.getEventById(event_id);
+
+        if (!event) {
+          return {
+            content: [{
+              type: "text",
+              text: `Event not found: ${event_id}`
+            }],
+            isError: true
+          };
+        }
+
+        const details = {
+          basic_info: {
+            id: event._id,
+            title: event.title,
+            company: event.company,
+            category: event.category,
+            description: event.description
+          },
+          location: {
+            venue: event.location,
+            city: event.city,
+            country: event.country
+          },
+          dates: {
+            start: event.eventStartDate,
+            end: event.eventEndDate
+          },
+          links: {
+            website: event.website,
+            featuredImage: event.featuredImage
+          },
+          social_links: event.socialLinks,
+          metadata: {
+            createdAt: event.createdAt,
+            updatedAt: event.updatedAt
+          }
+        };
+
+        const summary = [
+          `${event.title} (${event.category}) by ${event.company || "unknown organizer"}`,
+          `Where: ${[event.location, event.city, event.country].filter(Boolean).join(", ")}`,
+          `When: ${formatDate(event.eventStartDate)} to ${formatDate(event.eventEndDate)}`,
+          `Website: ${event.website || "none"}`
+        ].join("\n");
+
+        return toolResult(eventDetailsSchema.shape, details, summary);
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error getting event details: ${error}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "get_events_by_category")) server.registerTool(
+    "get_events_by_category",
+    {
+      title: "Get Events by Category",
+      description: "Retrieve all events in a specific category",
+      inputSchema: {
+        category: z.string().describe("Category to filter by (e.g., 'Conference', 'Meetup')"),
+        region: eventLocationArgs.region,
+        limit: z.number().int().positive().max(MAX_PAGE_SIZE).optional().describe("Maximum number of results to return"),
+        ...eventDateArgs,
+        ...pageArgs
+      },
+      outputSchema: eventListOutput
+    },
+    async ({ category, region, limit, cursor, page_size, ...dates }) => {
+      try {
+        const now = Date.now();
+        const matchesRegion = locationMatcher({ region });
+        const events = filterEventDates((await apiClient.getEventsByCategory(category)).filter(matchesRegion), dates, now);
+        const results = limit ? events.slice(0, limit) : events;
+
+        const summary = results.map(event => timedSummary(event, now));
+        const page = paginate(summary, event => event.id, { cursor, pageSize: page_size });
+
+        return toolResult(
+          eventListOutput,
+          { events: page.items, pagination: paginationInfo(page) },
+          listSummary(`Found ${page.total} events in category "${category}"${region ? ` in ${region}` : ""}${dateNote(dates)}.`, page, eventLine)
+        );
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error getting events by category: ${error}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "get_upcoming_events")) server.registerTool(
+    "get_upcoming_events",
+    {
+      title: "Get Upcoming Events",
+      description: "Get all events that have not ended yet, including those in progress, sorted by start date",
+      inputSchema: {
+        region: eventLocationArgs.region,
+        limit: z.number().int().positive().max(MAX_PAGE_SIZE).optional().describe("Maximum number of results to return"),
+        ...pageArgs
+      },
+      outputSchema: eventListOutput
+    },
+    async ({ region, limit, cursor, page_size }) => {
+      try {
+        const now = Date.now();
+        const matchesRegion = locationMatcher({ region });
+        const events = (await apiClient.getUpcomingEvents()).filter(matchesRegion);
+        const results = limit ? events.slice(0, limit) : events;
+
+        const summary = results.map(event => timedSummary(event, now));
+        const page = paginate(summary, event => event.id, { cursor, pageSize: page_size });
+
+        return toolResult(
+          eventListOutput,
+          { events: page.items, pagination: paginationInfo(page) },
+          listSummary(`Found ${page.total} upcoming events${region ? ` in ${region}` : ""}.`, page, eventLine)
+        );
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error getting upcoming events: ${error}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "get_events_by_location")) server.registerTool(
+    "get_events_by_location",
+    {
+      title: "Get Events by Location",
+      description: "Retrieve events in a country, city or region. Names are normalized, so 'US', 'USA' and 'United States' match the same events, and regions such as 'Europe' or 'Southeast Asia' cover their countries.",
+      inputSchema: {
+        ...eventLocationArgs,
+        limit: z.number().int().positive().max(MAX_PAGE_SIZE).optional().describe("Maximum number of results to return"),
+        ...eventDateArgs,
+        ...pageArgs
+      },
+      outputSchema: eventListOutput
+    },
+    async ({ country, city, region, limit, cursor, page_size, ...dates }) => {
+      try {
+        if (!country && !city && !region) {
+          return {
+            content: [{
+              type: "text",
+              text: "Please provide a country, city or region parameter"
+            }],
+            isError: true
+          };
+        }
+
+        const now = Date.now();
+        const events = filterEventDates(await apiClient.getEventsByLocation({ country, city, region }), dates, now);
+        const results = limit ? events.slice(0, limit) : events;
+
+        const summary = results.map(event => timedSummary(event, now));
+
+        const page = paginate(summary, event => event.id, { cursor, pageSize: page_size });
+
+        const location = [city, country, region].filter(Boolean).join(", ");
+        return toolResult(
+          eventListOutput,
+          { events: page.items, pagination: paginationInfo(page) },
+          listSummary(`Found ${page.total} events in ${location}${dateNote(dates)}.`, page, eventLine)
+        );
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error getting events by location: ${error}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "find_events_near")) server.registerTool(
+    "find_events_near",
+    {
+      title: "Find Events Near a Place",
+      description: "Find events within a radius of a city or coordinates, nearest first, optionally within a date range or timeframe. Event locations come from a bundled gazetteer of major cities, so events in cities it does not know are counted as unlocated rather than returned.",
+      inputSchema: {
+        place: z.string().optional().describe("A major city (e.g., 'Lisbon', 'Lisbon, Portugal', 'NYC') or 'latitude, longitude'"),
+        latitude: z.number().min(-90).max(90).optional().describe("Latitude of the center, instead of place"),
+        longitude: z.number().min(-180).max(180).optional().describe("Longitude of the center, instead of place"),
+        radius_km: z.number().positive().max(20_000).default(100).describe("Search radius in kilometers"),
+        category: z.string().optional().describe("Filter by event category (e.g., 'Conference', 'Meetup')"),
+        timeframe: z.string().optional().describe("Only events starting within this timeframe, e.g. 'March', 'next weekend', 'in the next 6 weeks'"),
+        ...eventDateArgs,
+        limit: z.number().int().positive().max(MAX_PAGE_SIZE).optional().describe("Maximum number of results to return"),
+        ...pageArgs
+      },
+      outputSchema: nearbyOutput
+    },
+    async ({ place, latitude, longitude, radius_km, category, timeframe, limit, cursor, page_size, ...dates }) => {
+      try {
+        if (place ? latitude !== undefined || longitude !== undefined : latitude === undefined || longitude === undefined) {
+          return {
+            content: [{
+              type: "text",
+              text: "Please provide either a place, or both latitude and longitude"
+            }],
+            isError: true
+          };
+        }
+
+        const center = place ? findPlace(place) : { name: `${latitude}, ${longitude}`, latitude: latitude!, longitude: longitude! };
+        const now = Date.now();
+        const range = timeframe ? parseTimeframe(timeframe, new Date(now)) : undefined;
+
+        const events = category ? await apiClient.getEventsByCategory(category) : await apiClient.getEvents();
+        let dated = filterEventDates(events, dates, now);
+        if (range) dated = filterEventDates(dated, { start_after: range.start, start_before: range.end }, now);
+
+        let unlocated = 0;
+        const nearby = dated.flatMap(event => {
+          const city = eventCity(event);
+          if (!city) {
+            unlocated++;
+            return [];
+          }
+          const distance = distanceKm(center, city);
+          return distance <= radius_km ? [{ event, distance }] : [];
+        });
+        nearby.sort((a, b) => a.distance - b.distance || Date.parse(a.event.eventStartDate) - Date.parse(b.event.eventStartDate));
+
+        const results = nearby.slice(0, limit).map(({ event, distance }) => ({
+          ...timedSummary(event, now),
+          distance_km: Math.round(distance * 10) / 10
+        }));
+        const page = paginate(results, event => event.id, { cursor, pageSize: page_size });
+
+        const heading = `Found ${page.total} events within ${radius_km} km of ${center.name}${range ? `, starting ${describeTimeframe(range)}` : ""}${dateNote(dates)}.`;
+        return toolResult(
+          nearbyOutput,
+          {
+            center,
+            radius_km,
+            ...(range && { timeframe: range }),
+            events: page.items,
+            unlocated,
+            pagination: paginationInfo(page)
+          },
+          listSummary(
+            unlocated ? `${heading} ${unlocated} events in the date range could not be placed on the map.` : heading,
+            page,
+            event => `${event.distance_km} km - ${eventLine(event)}`
+          )
+        );
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error finding events near a place: ${error}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "get_events_stats")) server.registerTool(
+    "get_events_stats",
+    {
+      title: "Get Events Statistics",
+      description: "Get overall statistics about the Blockza events directory",
+      inputSchema: {},
+      outputSchema: eventsStatsOutput
+    },
+    async () => {
+      try {
+        const events = await apiClient.getEvents();
+        const now = Date.now();
+        const statuses = { upcoming: 0, ongoing: 0, past: 0 };
+
+        const categories = new Set<string>();
+        const countries = new Map<string, { name: string; code: string | null; continent: Continent | null; events: number }>();
+        const continents = new Map<Continent, number>();
+        const cities = new Set<string>();
+        const companies = new Set<string>();
+        const unrecognized = new Set<string>();
+
+        events.forEach(event => {
+          const location = normalizeLocation(event.country, event.city);
+          if (event.category) categories.add(event.category);
+          if (location.country) {
+            const entry = countries.get(location.country) ?? { name: location.country, code: location.country_code, continent: location.continent, events: 0 };
+            entry.events++;
+            countries.set(location.country, entry);
+            if (!location.country_code) unrecognized.add(event.country.trim());
+          }
+          if (location.continent) continents.set(location.continent, (continents.get(location.continent) ?? 0) + 1);
+          if (location.city) cities.add(location.city);
+          if (event.company) companies.add(event.company);
+          statuses[eventStatus(event, now)]++;
+        });
+
+        const stats = {
+          total_events: events.length,
+          upcoming_events: statuses.upcoming,
+          ongoing_events: statuses.ongoing,
+          past_events: statuses.past,
+          total_categories: categories.size,
+          categories: Array.from(categories).sort(),
+          total_countries: countries.size,
+          countries: Array.from(countries.keys()).sort(),
+          total_cities: cities.size,
+          cities: Array.from(cities).sort(),
+          total_companies: companies.size,
+          companies: Array.from(companies).sort(),
+          by_country: Array.from(countries.values()).sort((a, b) => b.events - a.events || a.name.localeCompare(b.name)),
+          by_continent: Array.from(continents, ([continent, count]) => ({ continent, events: count })).sort((a, b) => b.events - a.events),
+          unrecognized_countries: Array.from(unrecognized).sort()
+        };
+
+        return toolResult(
+          eventsStatsOutput,
+          stats,
+          `The events directory lists ${stats.total_events} events (${stats.upcoming_events} upcoming, ${stats.ongoing_events} ongoing, ${stats.past_events} past) in ${stats.total_categories} categories, ${stats.total_countries} countries and ${stats.total_cities} cities.`
+        );
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error getting events statistics: ${error}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "export_events_ics")) server.registerTool(
+    "export_events_ics",
+    {
+      title: "Export Events as iCalendar",
+      description: "Export events as an iCalendar (.ics) file that calendar apps can import. Accepts the same filters as search_events plus a start date range. Each event keeps the same UID across exports, so re-importing updates existing entries instead of duplicating them.",
+      inputSchema: {
+        ...eventFilterArgs,
+        limit: z.number().int().positive().optional().describe("Maximum number of events (the most relevant when searching)")
+      },
+      outputSchema: icsOutput
+    },
+    async ({ limit, ...filter }) => {
+      try {
+        const events = (await selectEvents(apiClient, filter)).slice(0, limit);
+        const described = describeEventFilter(filter);
+        const ics = eventsToIcs(events, { name: calendarName(filter) });
+        const result = {
+          event_count: events.length,
+          filename: "blockza-events.ics",
+          mime_type: ICS_MIME_TYPE,
+          resource_uri: calendarUri.expand(filter),
+          ics
+        };
+
+        return {
+          content: [
+            { type: "text" as const, text: `Exported ${events.length} events${described ? ` ${described}` : ""} to ${result.filename}.` },
+            { type: "resource" as const, resource: { uri: result.resource_uri, mimeType: ICS_MIME_TYPE, text: ics } }
+          ],
+          structuredContent: { ...result }
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Error exporting events: ${error}` }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Podcasts Tools
+  if (allowed("tools", "search_podcasts")) server.registerTool(
+    "search_podcasts",
+    {
+      title: "Search Podcasts",
+      description: "Search podcasts by title, category, or company",
+      inputSchema: {
+        search: z.string().optional().describe("Search terms matched against title (strongest), company, category and description; results are ranked by relevance"),
+        category: z.string().optional().describe("Filter by podcast category"),
+        company: z.string().optional().describe("Filter by company/organization"),
+        limit: z.number().int().positive().max(MAX_PAGE_SIZE).optional().describe("Maximum number of results to return"),
+        status: z.string().optional().describe("Filter by status, e.g., 'published'"),
+        ...pageArgs
+      },
+      outputSchema: podcastListOutput
+    },
+    async ({ search, category, company, limit, status, cursor, page_size }) => {
+      try {
+        const params: { search?: string; category?: string; company?: string; limit?: number; status?: string } = {};
+        if (category !== undefined) params.category = category;
+        if (company !== undefined) params.company = company;
+        if (limit !== undefined && !search) params.limit = limit;
+        if (status !== undefined) params.status = status;
+
+        const [listed, searched] = await Promise.all([
+          apiClient.getPodcasts(params),
+          search ? apiClient.getPodcasts({ ...params, search }) : []
+        ]);
+        const podcasts = withSearchHits(listed, searched, p => p.id);
+        const ranked = rankItems(podcasts, podcastSearchFields, search).slice(0, limit);
+        const summary = ranked.map(({ item, match }) => ({ ...toPodcastSummary(item), ...(match && { match }) }));
+        const page = paginate(summary, p => p.id, { cursor, pageSize: page_size });
+
+        return toolResult(
+          podcastListOutput,
+          { podcasts: page.items, pagination: paginationInfo(page) },
+          listSummary(`Found ${page.total} podcasts.`, page, podcastLine)
+        );
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Error searching podcasts: ${error}` }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "get_podcast_details")) server.registerTool(
+    "get_podcast_details",
+    {
+      title: "Get Podcast Details",
+      description: "Get detailed information about a specific podcast by ID",
+      inputSchema: {
+        podcast_id: z.string().describe("Podcast ID to look up")
+      },
+      outputSchema: podcastItemSchema.shape
+    },
+    async ({ podcast_id }) => {
+      try {
+        const p = await apiClient.getPodcastById(podcast_id);
+        if (!p) {
+          return {
+            content: [{ type: "text", text: `Podcast not found: ${podcast_id}` }],
+            isError: true
+          };
+        }
+        const summary = [
+          `${p.title} (${p.category})${p.company ? ` by ${p.company}` : ""}`,
+          p.shortDescription,
+          `Status: ${p.status}, likes: ${p.likes ?? 0}, views: ${p.views ?? 0}`
+        ].filter(Boolean).join("\n");
+        return toolResult(podcastItemSchema.shape, p, summary);
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Error getting podcast details: ${error}` }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "get_podcasts_by_category")) server.registerTool(
+    "get_podcasts_by_category",
+    {
+      title: "Get Podcasts by Category",
+      description: "Retrieve all podcasts in a specific category",
+      inputSchema: {
+        category: z.string().describe("Category to filter by"),
+        limit: z.number().int().positive().max(MAX_PAGE_SIZE).optional().describe("Maximum number of results to return"),
+        ...pageArgs
+      },
+      outputSchema: podcastListOutput
+    },
+    async ({ category, limit, cursor, page_size }) => {
+      try {
+        const podcasts = await apiClient.getPodcastsByCategory(category);
+        const results = limit ? podcasts.slice(0, limit) : podcasts;
+        const summary = results.map(toPodcastSummary);
+        const page = paginate(summary, p => p.id, { cursor, pageSize: page_size });
+        return toolResult(
+          podcastListOutput,
+          { podcasts: page.items, pagination: paginationInfo(page) },
+          listSummary(`Found ${page.total} podcasts in category "${category}".`, page, podcastLine)
+        );
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Error getting podcasts by category: ${error}` }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "get_top_podcasts")) server.registerTool(
+    "get_top_podcasts",
+    {
+      title: "Get Top Podcasts",
+      description: "Rank podcasts by a weighted score of likes, views and recency, each normalized within the podcast's category. Every score comes with an explanation of how it was computed.",
+      inputSchema: {
+        category: z.string().optional().describe("Only rank podcasts in this category; scores are normalized within each category either way"),
+        sort_by: z.enum(PODCAST_SORTS).optional().describe("Order by the score (default) or by one factor; recency puts the newest first"),
+        weights: podcastWeightsSchema.partial().optional().describe('Weight overrides for this call, e.g. { "recency": 3 } for trending episodes; factors left out keep their configured weights'),
+        limit: z.number().int().positive().max(MAX_PAGE_SIZE).optional().describe("Maximum number of results to return"),
+        ...pageArgs
+      },
+      outputSchema: topPodcastsOutput
+    },
+    async ({ category, sort_by = "score", weights, limit, cursor, page_size }) => {
+      try {
+        const applied = resolveWeights(scoring.podcasts, weights);
+        const podcasts = await apiClient.getPodcasts(category ? { category } : undefined);
+        const results = rankPodcasts(podcasts, applied, sort_by)
+          .slice(0, limit)
+          .map(({ item, score, scoring: details }, i) => ({ ...toPodcastSummary(item), rank: i + 1, score, scoring: details }));
+        const page = paginate(results, p => p.id, { cursor, pageSize: page_size });
+        return toolResult(
+          topPodcastsOutput,
+          { sort_by, weights: applied, podcasts: page.items, pagination: paginationInfo(page) },
+          listSummary(
+            `Top ${page.total} podcasts${category ? ` in "${category}"` : ""} by ${sort_by} (weights: ${describeWeights(applied)}).`,
+            page,
+            p => `${p.title}${p.company ? ` - ${p.company}` : ""} (id ${p.id})${scoreNote(p)}`
+          )
+        );
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Error ranking podcasts: ${error}` }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "get_podcasts_stats")) server.registerTool(
+    "get_podcasts_stats",
+    {
+      title: "Get Podcasts Statistics",
+      description: "Get overall statistics for podcasts",
+      inputSchema: {},
+      outputSchema: podcastsStatsOutput
+    },
+    async () => {
+      try {
+        const podcasts = await apiClient.getPodcasts();
+        const categories = new Set<string>();
+        const companies = new Set<string>();
+        let totalLikes = 0;
+        let totalViews = 0;
+        podcasts.forEach(p => {
+          if (p.category) categories.add(p.category);
+          if (p.company) companies.add(p.company);
+          totalLikes += p.likes || 0;
+          totalViews += p.views || 0;
+        });
+        const stats = {
+          total_podcasts: podcasts.length,
+          total_categories: categories.size,
+          categories: Array.from(categories).sort(),
+          total_companies: companies.size,
+          companies: Array.from(companies).sort(),
+          total_likes: totalLikes,
+          total_views: totalViews,
+          average_likes: podcasts.length ? +(totalLikes / podcasts.length).toFixed(2) : 0,
+          average_views: podcasts.length ? +(totalViews / podcasts.length).toFixed(2) : 0
+        };
+        return toolResult(
+          podcastsStatsOutput,
+          stats,
+          `There are ${stats.total_podcasts} podcasts from ${stats.total_companies} companies in ${stats.total_categories} categories, averaging ${stats.average_likes} likes and ${stats.average_views} views.`
+        );
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Error getting podcasts statistics: ${error}` }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Relationships
+  if (allowed("tools", "get_company_activity")) server.registerTool(
+    "get_company_activity",
+    {
+      title: "Get Company Activity",
+      description: "Chronological feed of the events and podcast episodes linked to a company. Event and podcast company names are matched to directory companies by id, slug or name, and each item reports how confident that match is.",
+      inputSchema: {
+        company: z.string().describe("Company slug (a name, website or social handle also works)"),
+        types: z.array(z.enum(ACTIVITY_TYPES)).optional().describe("Only include these types (default: events and podcasts)"),
+        min_confidence: z.number().min(0).max(1).optional().describe("Drop items whose company match is less confident than this (0 to 1)"),
+        ...pageArgs
+      },
+      outputSchema: activityOutput
+    },
+    async ({ company: identifier, types, min_confidence, cursor, page_size }) => {
+      try {
+        const resolution = await apiClient.resolveCompany(identifier);
+
+        if (!resolution.match) {
+          return {
+            content: [{
+              type: "text",
+              text: unresolvedMessage(resolution)
+            }],
+            isError: true
+          };
+        }
+
+        const { company, method, confidence } = resolution.match;
+        const lookup = await getCompanyActivity(apiClient, company, {
+          ...(types && { types }),
+          ...(min_confidence !== undefined && { minConfidence: min_confidence })
+        });
+        const page = paginate(activityFeed(lookup), item => `${item.type}:${item.id}`, { cursor, pageSize: page_size });
+
+        const lines = page.items.map((item, i) =>
+          `${page.offset + i + 1}. ${formatDate(item.date) || "undated"} [${item.type}] ${item.title} (${item.uri}) - matched by ${item.link.method}, confidence ${item.link.confidence}`
+        );
+        const unavailable = lookup.unavailable.length
+          ? [`Not included because the API failed: ${lookup.unavailable.map(entry => entry.type).join(", ")}.`]
+          : [];
+
+        return toolResult(
+          activityOutput,
+          {
+            company: { slug: company.slug, name: company.name, uri: entityUri({ type: "company", item: company }) },
+            resolution: { method, confidence },
+            counts: { events: lookup.events.length, podcasts: lookup.podcasts.length },
+            feed: page.items,
+            pagination: paginationInfo(page),
+            unavailable: lookup.unavailable
+          },
+          [
+            `${company.name} has ${lookup.events.length} linked events and ${lookup.podcasts.length} linked podcast episodes. ${describePage(page)}`.trim(),
+            ...unavailable,
+            ...lines
+          ].join("\n")
+        );
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Error getting company activity: ${error}` }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Cross-entity search
+  if (allowed("tools", "search_all")) server.registerTool(
+    "search_all",
+    {
+      title: "Search Everything",
+      description: "Search companies, events and podcasts at once and get one list ranked by relevance. Use this for topic questions such as \"what does Blockza have on zero-knowledge proofs?\"",
+      inputSchema: {
+        query: z.string().min(1).describe("Search terms"),
+        types: z.array(z.enum(ENTITY_TYPES)).optional().describe("Only search these types (default: all)"),
+        limit: z.number().int().positive().max(MAX_SEARCH_LIMIT).optional().describe(`Maximum number of results (default ${DEFAULT_SEARCH_LIMIT}, max ${MAX_SEARCH_LIMIT})`),
+        per_type_limit: z.number().int().nonnegative().optional().describe("Maximum results of each type, so one type cannot crowd out the others"),
+        quotas: z.object({
+          company: z.number().int().nonnegative().optional(),
+          event: z.number().int().nonnegative().optional(),
+          podcast: z.number().int().nonnegative().optional()
+        }).optional().describe("Maximum results per type; overrides per_type_limit for the types given")
+      },
+      outputSchema: searchAllOutput
+    },
+    async ({ query, types, limit, per_type_limit, quotas }) => {
+      try {
+        const perType = per_type_limit === undefined ? {} : { company: per_type_limit, event: per_type_limit, podcast: per_type_limit };
+        const search = await searchDirectory(apiClient, query, {
+          ...(types && { types }),
+          ...(limit !== undefined && { limit }),
+          quotas: { ...perType, ...quotas }
+        });
+
+        const counts = ENTITY_TYPES.map(type => `${search.total_matches[type]} ${type === "company" ? "companies" : `${type}s`}`);
+        const lines = search.results.map((result, i) =>
+          `${i + 1}. [${result.type}] ${result.title}${result.subtitle ? ` - ${result.subtitle}` : ""} (${result.uri})${matchNote(result)}`
+        );
+        const unavailable = search.unavailable.length
+          ? [`Not searched because the API failed: ${search.unavailable.map(entry => entry.type).join(", ")}.`]
+          : [];
+
+        return toolResult(
+          searchAllOutput,
+          search,
+          [`Found ${counts.join(", ")} matching "${query}"; showing ${search.results.length}.`, ...unavailable, ...lines].join("\n")
+        );
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Error searching the directory: ${error}` }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  if (allowed("tools", "export_entities")) server.registerTool(
+    "export_entities",
+    {
+      title: "Export Entities as CSV, TSV or JSON Lines",
+      description: "Export companies, team members, events or podcasts as a CSV, TSV or JSON Lines file for spreadsheets and analysis. Nested fields are flattened into dotted columns such as socialLinks.twitter and promotionSettings.hasAffiliateProgram.",
+      inputSchema: {
+        entity: z.enum(EXPORT_ENTITIES).describe("What to export; team_members has one row per member with the company slug and name"),
+        format: z.enum(EXPORT_FORMATS).optional().describe("File format (default csv)"),
+        columns: z.array(z.string()).optional().describe("Columns in order, using dotted names for nested fields; \"*\" adds every column. Defaults to a summary set per entity"),
+        limit: z.number().int().positive().optional().describe("Maximum number of rows"),
+        ...exportFilterArgs
+      },
+      outputSchema: exportOutput
+    },
+    async ({ entity, format = "csv", columns, limit, ...filter }) => {
+      try {
+        const result = await exportEntities(apiClient, { entity, format, columns, limit, filter });
+
+        return {
+          content: [
+            { type: "text" as const, text: `Exported ${result.row_count} ${entity.replace("_", " ")} to ${result.filename} (columns: ${result.columns.join(", ")}).` },
+            { type: "resource" as const, resource: { uri: result.resource_uri, mimeType: result.mime_type, text: result.content } }
+          ],
+          structuredContent: { ...result }
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Error exporting ${entity}: ${error}` }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // History; only available when snapshots are enabled
+  if (history && allowed("tools", "get_directory_changes")) {
+    server.registerTool(
+      "get_directory_changes",
+      {
+        title: "Get Directory Changes",
+        description: "What changed in the directory between two points in time, from periodic snapshots: added and removed companies, events and podcasts, verification status changes, category moves and large likes/views changes. Use for questions like \"what's new since last week?\"",
+        inputSchema: {
+          since: z.string().describe("Start of the period, as an ISO 8601 date or timestamp (e.g. 2026-10-12)"),
+          until: z.string().optional().describe("End of the period (ISO 8601). Compares against current data when omitted"),
+          types: z.array(z.enum(ENTITY_TYPES)).optional().describe("Only report these entity types (default: all)"),
+          min_likes_delta: z.number().nonnegative().optional().describe("Smallest likes change to report (default 10)"),
+          min_views_delta: z.number().nonnegative().optional().describe("Smallest views change to report (default 100)"),
+          limit: z.number().int().positive().max(500).optional().describe("Maximum entries in each list (default 50)")
+        },
+        outputSchema: changesOutput
+      },
+      async ({ since, until, types, min_likes_delta, min_views_delta, limit }) => {
+        try {
+          const start = Date.parse(since);
+          const end = until === undefined ? Date.now() : Date.parse(until);
+          if (Number.isNaN(start) || Number.isNaN(end)) {
+            return {
+              content: [{ type: "text", text: `Invalid date: ${Number.isNaN(start) ? since : until}. Use ISO 8601, e.g. 2026-10-12 or 2026-10-12T09:00:00Z` }],
+              isError: true
+            };
+          }
+          if (start >= end) {
+            return {
+              content: [{ type: "text", text: until === undefined ? "`since` must be in the past" : "`since` must be earlier than `until`" }],
+              isError: true
+            };
+          }
+
+          const before = await history.nearest(start);
+          if (!before) {
+            return {
+              content: [{ type: "text", text: `No directory snapshots have been recorded yet, so there is nothing to compare against. Snapshot history is enabled and records one at startup, then ${history.describeSchedule()} (snapshots.intervalSeconds); try again once the first one is saved.` }],
+              isError: true
+            };
+          }
+          const live = until === undefined;
+          // A snapshot exists, so nearest() finds one for the end as well
+          const after = live ? await history.live() : (await history.nearest(end))!;
+
+          const changes = compareSnapshots(before.entities, after.entities, {
+            ...(types && { types }),
+            minLikesDelta: min_likes_delta ?? 10,
+            minViewsDelta: min_views_delta ?? 100
+          });
+          const max = limit ?? 50;
+          const result = {
+            from: { requested: new Date(start).toISOString(), snapshot_at: before.taken_at },
+            to: { requested: until === undefined ? null : new Date(end).toISOString(), snapshot_at: after.taken_at, live },
+            counts: {
+              added: changes.added.length,
+              removed: changes.removed.length,
+              verification_changes: changes.verification_changes.length,
+              category_moves: changes.category_moves.length,
+              engagement_changes: changes.engagement_changes.length
+            },
+            added: changes.added.slice(0, max),
+            removed: changes.removed.slice(0, max),
+            verification_changes: changes.verification_changes.slice(0, max),
+            category_moves: changes.category_moves.slice(0, max),
+            engagement_changes: changes.engagement_changes.slice(0, max)
+          };
+
+          const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+          const section = <T>(heading: string, items: T[], total: number, line: (item: T) => string) =>
+            total === 0 ? [] : [`${heading} (${total}${total > items.length ? `, showing ${items.length}` : ""}):`, ...items.map(item => `- ${line(item)}`)];
+          const notes = [
+            ...(Date.parse(before.taken_at) > start ? [`History starts at ${before.taken_at}, so changes are counted from there.`] : []),
+            ...(live ? [] : Date.parse(after.taken_at) <= start ? ["No snapshot was taken within the period."] : [])
+          ];
+          const lines = [
+            `Directory changes from ${before.taken_at} to ${live ? "now" : after.taken_at}:`,
+            ...notes,
+            ...section("Added", result.added, result.counts.added, r => `[${r.type}] ${r.name} (${r.uri})`),
+            ...section("Removed", result.removed, result.counts.removed, r => `[${r.type}] ${r.name} (${r.uri})`),
+            ...section("Verification changes", result.verification_changes, result.counts.verification_changes, r => `${r.name}: ${r.from} -> ${r.to}`),
+            ...section("Category moves", result.category_moves, result.counts.category_moves, r => `[${r.type}] ${r.name}: ${r.from} -> ${r.to}`),
+            ...section("Likes/views changes", result.engagement_changes, result.counts.engagement_changes, r =>
+              `[${r.type}] ${r.name}: likes ${signed(r.likes.delta)} (${r.likes.to}), views ${signed(r.views.delta)} (${r.views.to})`)
+          ];
+          if (Object.values(result.counts).every(count => count === 0)) lines.push("No changes.");
+
+          return toolResult(changesOutput, result, lines.join("\n"));
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: `Error getting directory changes: ${error}` }],
+            isError: true
+          };
+        }
+      }
+    );
+  }
+
+  // Admin Tools
+  if (allowed("tools", "refresh_cache")) server.registerTool(
+    "refresh_cache",
+    {
+      title: "Refresh Cached Data",
+      description: "Discard cached Blockza API responses so the next request fetches fresh data. Use when the user says the directory data looks outdated.",
+      inputSchema: {
+        endpoint: z.enum(["directory", "events", "podcasts"]).optional().describe("Only refresh one API (directory = companies). Refreshes everything when omitted")
+      },
+      outputSchema: refreshCacheOutput
+    },
+    async ({ endpoint }) => {
+      try {
+        const cleared = apiClient.refreshCache(endpoint);
+        const result = {
+          refreshed: endpoint ?? "all" as const,
+          cleared_entries: cleared,
+          cache: apiClient.getCacheStats(),
+          upstream: apiClient.getUpstreamStatus()
+        };
+        const open = Object.entries(result.upstream).filter(([, status]) => status.state !== "closed").map(([name]) => name);
+        return toolResult(
+          refreshCacheOutput,
+          result,
+          `Cleared ${cleared} cached responses for ${endpoint ?? "all endpoints"}.${open.length ? ` Upstream circuit not closed for: ${open.join(", ")}.` : ""}`
+        );
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Error refreshing cache: ${error}` }],
+          isError: true
+        };
+      }
+    }
+  );
+}
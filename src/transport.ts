@@ -0,0 +1,223 @@
+// src/transport.ts
+import { randomUUID } from "node:crypto";
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { ApiKeyAuthenticator, Principal } from "./auth.js";
+import { TransportSettings } from "./config.js";
+
+type HttpTransportSettings = TransportSettings["http"];
+
+interface Session {
+  keyId: string | undefined;
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+  activeRequests: number;
+}
+
+export interface HttpTransportHandle {
+  url: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+  headers: Record<string, string> = {}
+) {
+  if (res.headersSent) return;
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+// Serves MCP over Streamable HTTP. Every client session gets its own McpServer
+// from `createServer`; sessions idle for longer than `sessionIdleSeconds` are closed.
+// With an authenticator, each request needs a valid key and a session stays bound
+// to the key that opened it.
+export async function startHttpTransport(
+  createServer: (principal?: Principal) => McpServer,
+  settings: HttpTransportSettings,
+  authenticator?: ApiKeyAuthenticator
+): Promise<HttpTransportHandle> {
+  const sessions = new Map<string, Session>();
+
+  async function closeSession(sessionId: string) {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    await session.transport.close().catch(error => console.error(`Failed to close session ${sessionId}:`, error));
+    await session.server.close().catch(() => undefined);
+  }
+
+  async function track(session: Session, res: ServerResponse, handle: () => Promise<void>) {
+    session.activeRequests++;
+    session.lastSeen = Date.now();
+    res.on("close", () => {
+      session.activeRequests--;
+      session.lastSeen = Date.now();
+    });
+    await handle();
+  }
+
+  async function startSession(req: IncomingMessage, res: ServerResponse, body: unknown, principal?: Principal) {
+    const server = createServer(principal);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: sessionId => {
+        const session = { keyId: principal?.keyId, server, transport, lastSeen: Date.now(), activeRequests: 0 };
+        sessions.set(sessionId, session);
+        console.error(`MCP session ${sessionId} started (${sessions.size} active)`);
+      },
+      ...(settings.allowedOrigins && {
+        allowedOrigins: settings.allowedOrigins,
+        enableDnsRebindingProtection: true
+      })
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        console.error(`MCP session ${transport.sessionId} closed (${sessions.size} active)`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleMcpRequest(req: IncomingMessage, res: ServerResponse) {
+    let principal: Principal | undefined;
+    if (authenticator) {
+      principal = authenticator.authenticate(req) ?? undefined;
+      if (!principal) {
+        sendJsonRpcError(res, 401, -32001, "Unauthorized: a valid API key is required (Authorization: Bearer <token>)", {
+          "WWW-Authenticate": 'Bearer realm="blockza-directory"'
+        });
+        return;
+      }
+      // Every request counts, including GET streams and DELETE, so none of them can be used to flood the server
+      const decision = authenticator.consume(principal);
+      if (!decision.allowed) {
+        sendJsonRpcError(res, 429, -32000, `Rate limit exceeded for API key "${principal.keyId}"; retry in ${decision.retryAfterSeconds}s`, {
+          "Retry-After": String(decision.retryAfterSeconds)
+        });
+        return;
+      }
+    }
+
+    const header = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (session && session.keyId !== principal?.keyId) {
+      sendJsonRpcError(res, 403, -32001, "Forbidden: this session belongs to a different API key");
+      return;
+    }
+
+    if (req.method === "POST") {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+
+      if (session) {
+        await track(session, res, () => session.transport.handleRequest(req, res, body));
+      } else if (!sessionId && isInitializeRequest(body)) {
+        await startSession(req, res, body, principal);
+      } else if (sessionId) {
+        sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+      } else {
+        sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      }
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      if (!session) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId ? `Session not found: ${sessionId}` : "Bad Request: No valid session ID provided");
+        return;
+      }
+      await track(session, res, () => session.transport.handleRequest(req, res));
+      return;
+    }
+
+    res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+    if (pathname === "/health" && req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status: "ok", sessions: sessions.size }));
+      return;
+    }
+    if (pathname !== settings.path) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: `Not found: ${pathname}` }));
+      return;
+    }
+
+    handleMcpRequest(req, res).catch(error => {
+      console.error("Error handling MCP request:", error);
+      sendJsonRpcError(res, 500, -32603, "Internal server error");
+    });
+  });
+
+  const idleMs = settings.sessionIdleSeconds * 1000;
+  const sweeper = setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.activeRequests === 0 && session.lastSeen < cutoff) {
+        console.error(`MCP session ${sessionId} idle for ${settings.sessionIdleSeconds}s, closing`);
+        void closeSession(sessionId);
+      }
+    }
+  }, Math.min(idleMs, 60_000));
+  sweeper.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(settings.port, settings.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://${settings.host}:${port}${settings.path}`,
+    sessionCount: () => sessions.size,
+    async close() {
+      clearInterval(sweeper);
+      await Promise.all(Array.from(sessions.keys()).map(closeSession));
+      await new Promise<void>(resolve => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    }
+  };
+}
@@ -0,0 +1,131 @@
+// src/validation.ts
+import { z } from "zod";
+import { Endpoint } from "./config.js";
+
+const MAX_REJECTED_SAMPLES = 20;
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface RejectedItem {
+  index: number;
+  id: string | null;
+  issues: SchemaIssue[];
+}
+
+// What one upstream response looked like compared to the expected schema
+export interface DriftReport {
+  endpoint: Endpoint;
+  url: string;
+  checked_at: string;
+  received: number;
+  accepted: number;
+  rejected: number;
+  // Expected top-level fields that were absent or null and got a default, with item counts
+  missing_fields: Record<string, number>;
+  // Top-level fields the schema does not know about, with item counts
+  unknown_fields: Record<string, number>;
+  rejected_items: RejectedItem[];
+}
+
+// Thrown when a response cannot be trusted at all. Client lookups that otherwise
+// fall back to an empty result rethrow it, so a shape change is never silent.
+export class SchemaDriftError extends Error {
+  constructor(public endpoint: Endpoint, public url: string, public issues: SchemaIssue[]) {
+    super(`The ${endpoint} API response does not match the expected schema (${url}): ${formatIssues(issues)}`);
+    this.name = "SchemaDriftError";
+  }
+}
+
+// Describes one kind of upstream item: the raw object shape (used to spot missing
+// and unknown fields) and the schema that turns it into the normalized model
+export interface UpstreamModel<T> {
+  fields: z.AnyZodObject;
+  // Fields that are legitimately absent, such as an `id` alias of `_id`
+  optional?: string[];
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+}
+
+export function toSchemaIssues(error: z.ZodError): SchemaIssue[] {
+  return error.issues.map(issue => ({ path: issue.path.join("."), message: issue.message }));
+}
+
+function formatIssues(issues: SchemaIssue[]): string {
+  const shown = issues.slice(0, 5).map(issue => `${issue.path || "(root)"}: ${issue.message}`);
+  if (issues.length > shown.length) shown.push(`and ${issues.length - shown.length} more`);
+  return shown.join("; ");
+}
+
+export function hasDrift(report: DriftReport): boolean {
+  return report.rejected > 0 || Object.keys(report.missing_fields).length > 0 || Object.keys(report.unknown_fields).length > 0;
+}
+
+export function summarizeDrift(report: DriftReport): string {
+  const parts = [`${report.rejected} of ${report.received} items rejected`];
+  const missing = Object.entries(report.missing_fields).map(([field, n]) => `${field} (${n})`);
+  const unknown = Object.entries(report.unknown_fields).map(([field, n]) => `${field} (${n})`);
+  if (missing.length) parts.push(`missing fields: ${missing.join(", ")}`);
+  if (unknown.length) parts.push(`unknown fields: ${unknown.join(", ")}`);
+  return `Schema drift in the ${report.endpoint} API: ${parts.join("; ")}`;
+}
+
+// Validates a response envelope; a mismatch means the API changed shape and nothing can be trusted
+export function parseEnvelope<T>(endpoint: Endpoint, url: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, payload: unknown): T {
+  const result = schema.safeParse(payload);
+  if (!result.success) throw new SchemaDriftError(endpoint, url, toSchemaIssues(result.error));
+  return result.data;
+}
+
+// Normalizes each item on its own. Items that fail validation are dropped and
+// reported; if every item fails, the response is treated as a shape change.
+export function parseItems<T>(endpoint: Endpoint, url: string, model: UpstreamModel<T>, raw: unknown[]): { items: T[]; report: DriftReport } {
+  const expected = Object.keys(model.fields.shape).filter(field => !model.optional?.includes(field));
+  const known = new Set(Object.keys(model.fields.shape));
+  const report: DriftReport = {
+    endpoint,
+    url,
+    checked_at: new Date().toISOString(),
+    received: raw.length,
+    accepted: 0,
+    rejected: 0,
+    missing_fields: {},
+    unknown_fields: {},
+    rejected_items: []
+  };
+  const items: T[] = [];
+
+  raw.forEach((value, index) => {
+    const result = model.schema.safeParse(value);
+    const record = value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+    if (!result.success) {
+      report.rejected++;
+      if (report.rejected_items.length < MAX_REJECTED_SAMPLES) {
+        const id = record._id ?? record.id;
+        report.rejected_items.push({ index, id: typeof id === "string" ? id : null, issues: toSchemaIssues(result.error) });
+      }
+      return;
+    }
+
+    report.accepted++;
+    items.push(result.data);
+    for (const field of expected) {
+      if (record[field] === undefined || record[field] === null) {
+        report.missing_fields[field] = (report.missing_fields[field] ?? 0) + 1;
+      }
+    }
+    for (const field of Object.keys(record)) {
+      if (!known.has(field)) report.unknown_fields[field] = (report.unknown_fields[field] ?? 0) + 1;
+    }
+  });
+
+  if (report.received > 0 && report.accepted === 0) {
+    throw new SchemaDriftError(endpoint, url, report.rejected_items.flatMap(item =>
+      item.issues.map(issue => ({ ...issue, path: [`[${item.index}]`, issue.path].filter(Boolean).join(".") }))
+    ));
+  }
+
+  return { items, report };
+}
@@ -0,0 +1,99 @@
+// test/cache.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ResponseCache } from "../src/cache.js";
+
+const options = { ttlMs: 1000, staleMs: 5000 };
+
+// A loader that counts its calls and returns "<key>#<call>"
+function counter(key: string) {
+  let calls = 0;
+  return { load: async () => `${key}#${++calls}`, calls: () => calls };
+}
+
+// Resolves when the test says so, to hold a load in flight
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => { resolve = done; });
+  return { promise, resolve };
+}
+
+describe("ResponseCache", () => {
+  it("serves fresh entries without loading again", async t => {
+    t.mock.timers.enable({ apis: ["Date"], now: 0 });
+    const cache = new ResponseCache(10);
+    const source = counter("a");
+    assert.equal(await cache.get("a", source.load, options), "a#1");
+    t.mock.timers.tick(999);
+    assert.equal(await cache.get("a", source.load, options), "a#1");
+    assert.equal(source.calls(), 1);
+    assert.equal(cache.stats().hits, 1);
+  });
+
+  it("serves a stale entry while refreshing it in the background", async t => {
+    t.mock.timers.enable({ apis: ["Date"], now: 0 });
+    const cache = new ResponseCache(10);
+    const source = counter("a");
+    await cache.get("a", source.load, options);
+    t.mock.timers.tick(2000);
+
+    assert.equal(await cache.get("a", source.load, options), "a#1");
+    assert.equal(cache.stats().staleHits, 1);
+    await Promise.resolve();
+    assert.equal(await cache.get("a", source.load, options), "a#2");
+  });
+
+  it("loads again once an entry is past its stale window", async t => {
+    t.mock.timers.enable({ apis: ["Date"], now: 0 });
+    const cache = new ResponseCache(10);
+    const source = counter("a");
+    await cache.get("a", source.load, options);
+    t.mock.timers.tick(6000);
+    assert.equal(await cache.get("a", source.load, options), "a#2");
+    assert.equal(cache.stats().misses, 2);
+  });
+
+  it("shares one load between concurrent callers", async () => {
+    const cache = new ResponseCache(10);
+    const source = counter("a");
+    const results = await Promise.all([cache.get("a", source.load, options), cache.get("a", source.load, options)]);
+    assert.deepEqual(results, ["a#1", "a#1"]);
+    assert.equal(source.calls(), 1);
+  });
+
+  it("evicts the least recently used entry", async () => {
+    const cache = new ResponseCache(2);
+    await cache.get("a", counter("a").load, options);
+    await cache.get("b", counter("b").load, options);
+    await cache.get("a", counter("a").load, options);
+    await cache.get("c", counter("c").load, options);
+
+    const b = counter("b");
+    await cache.get("b", b.load, options);
+    assert.equal(b.calls(), 1);
+    assert.equal(cache.stats().evictions, 2);
+  });
+
+  it("invalidates by prefix", async () => {
+    const cache = new ResponseCache(10);
+    await cache.get("events:1", counter("e").load, options);
+    await cache.get("podcasts:1", counter("p").load, options);
+    assert.equal(cache.invalidate("events:"), 1);
+    assert.equal(cache.stats().entries, 1);
+    assert.equal(cache.invalidate(), 1);
+  });
+
+  it("drops a load that was in flight when the cache was invalidated", async () => {
+    const cache = new ResponseCache(10);
+    const before = deferred<string>();
+    const pending = cache.get("a", () => before.promise, options);
+
+    cache.invalidate();
+    const after = cache.get("a", async () => "fresh", options);
+    before.resolve("stale");
+
+    assert.equal(await pending, "stale");
+    assert.equal(await after, "fresh");
+    assert.equal(await cache.get("a", async () => "unused", options), "fresh");
+  });
+});
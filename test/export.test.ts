@@ -0,0 +1,76 @@
+// test/export.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ExportError, exportEntities, exportRequestFrom, flatten, renderRows } from "../src/export.js";
+import { company, directoryApi, stubApi } from "./fixtures.js";
+
+describe("flatten", () => {
+  it("turns nested objects into dotted columns and joins plain lists", () => {
+    assert.deepEqual(flatten({ name: "A", socialLinks: { twitter: "@a" }, tags: ["x", "y"], team: [{ name: "B" }], none: null }), {
+      name: "A",
+      "socialLinks.twitter": "@a",
+      tags: "x; y",
+      team: `[{"name":"B"}]`,
+      none: null
+    });
+  });
+});
+
+describe("renderRows", () => {
+  const rows = [
+    { name: 'Say "hi", then go', formula: "=HYPERLINK(\"x\")", negative: "-5", multi: "one\ntwo" },
+    { name: " padded", formula: "@sum", negative: "+cmd", multi: null }
+  ];
+  const columns = ["name", "formula", "negative", "multi"];
+
+  it("quotes CSV fields as RFC 4180 with CRLF line endings", () => {
+    assert.equal(renderRows(rows, columns, "csv"), [
+      "name,formula,negative,multi",
+      `"Say ""hi"", then go","'=HYPERLINK(""x"")",-5,"one\ntwo"`,
+      `" padded",'@sum,'+cmd,`
+    ].join("\r\n") + "\r\n");
+  });
+
+  it("flattens line breaks and tabs in TSV", () => {
+    assert.equal(renderRows([{ a: "x\ty", b: "one\r\ntwo" }], ["a", "b"], "tsv"), "a\tb\nx y\tone two\n");
+  });
+
+  it("writes JSON Lines with only the requested columns, in order", () => {
+    assert.equal(renderRows([{ a: 1, b: true, c: "x" }], ["c", "a", "d"], "jsonl"), `{"c":"x","a":1,"d":null}\n`);
+    assert.equal(renderRows([], ["a"], "jsonl"), "");
+  });
+});
+
+describe("exportRequestFrom", () => {
+  it("reads columns, limit and filters from URI variables", () => {
+    const request = exportRequestFrom("companies", "csv", { columns: "name, slug,", limit: "5", verified_only: "true", category: "AI" });
+    assert.deepEqual(request.columns, ["name", "slug"]);
+    assert.equal(request.limit, 5);
+    assert.equal(request.filter.verified_only, true);
+    assert.equal(request.filter.category, "AI");
+  });
+
+  it("rejects a limit that is not a positive integer", () => {
+    for (const limit of ["0", "-3", "2.5", "abc", "1e3"]) {
+      assert.throws(() => exportRequestFrom("companies", "csv", { limit }), ExportError, limit);
+    }
+  });
+});
+
+describe("exportEntities", () => {
+  const companies = [company({ name: "BitMart", category: "Exchanges" }), company({ name: "Gynger", category: "Fintech" })];
+
+  it("lists each column once when * repeats a named one", async t => {
+    const { client } = stubApi(t, directoryApi(companies));
+    const result = await exportEntities(client, { entity: "companies", format: "csv", columns: ["name", "*"], filter: {} });
+    assert.equal(result.columns.filter(column => column === "name").length, 1);
+    assert.equal(result.columns[0], "name");
+    assert.equal(result.content.split("\r\n")[0], result.columns.join(","));
+  });
+
+  it("rejects unknown columns and filters that do not apply", async t => {
+    const { client } = stubApi(t, directoryApi(companies));
+    await assert.rejects(exportEntities(client, { entity: "companies", format: "csv", columns: ["nope"], filter: {} }), /Unknown column for companies: nope/);
+    await assert.rejects(exportEntities(client, { entity: "companies", format: "csv", filter: { country: "US" } }), /country cannot filter companies/);
+  });
+});
@@ -0,0 +1,53 @@
+// test/fixtures.ts
+import { TestContext } from "node:test";
+import { BlockzaAPIClient } from "../src/client.js";
+import { loadConfig } from "../src/config.js";
+import { Company, Event, PodcastItem, upstreamCompanySchema, upstreamEventSchema, upstreamPodcastSchema } from "../src/schemas.js";
+
+// Shared builders for the unit tests. Entities go through the upstream schemas, so
+// only the fields a test cares about need to be given.
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+export function company(fields: { name: string } & Record<string, unknown>): Company {
+  const slug = slugify(fields.name);
+  return upstreamCompanySchema.parse({ _id: slug, slug, ...fields });
+}
+
+export function event(fields: { title: string } & Record<string, unknown>): Event {
+  return upstreamEventSchema.parse({ _id: slugify(fields.title), eventStartDate: "2026-11-01T09:00:00Z", ...fields });
+}
+
+export function podcast(fields: { title: string } & Record<string, unknown>): PodcastItem {
+  return upstreamPodcastSchema.parse({ id: slugify(fields.title), ...fields });
+}
+
+export interface StubbedApi {
+  client: BlockzaAPIClient;
+  // Every URL requested so far
+  requests: URL[];
+}
+
+// A client for http://api.test whose requests are answered by `respond` instead of the
+// network, configured with the extra command line flags in `argv`. `fetch` is restored
+// when the test ends.
+export function stubApi(t: TestContext, respond: (url: URL) => unknown, argv: string[] = []): StubbedApi {
+  const requests: URL[] = [];
+  t.mock.method(globalThis, "fetch", async (input: string | URL | Request) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    requests.push(url);
+    return Response.json(respond(url));
+  });
+  const config = loadConfig(["--base-url", "http://api.test", "--no-cache", ...argv], {});
+  return { client: new BlockzaAPIClient(config.api, config.cache, config.http), requests };
+}
+
+// The directory API: filters by `search` (name or slug) and caps the list at `limit`, like upstream
+export function directoryApi(companies: Company[]): (url: URL) => unknown {
+  return url => {
+    const search = url.searchParams.get("search")?.toLowerCase();
+    const limit = Number(url.searchParams.get("limit") ?? Infinity);
+    const matching = search ? companies.filter(c => `${c.name} ${c.slug}`.toLowerCase().includes(search)) : companies;
+    return { success: true, data: matching.slice(0, limit) };
+  };
+}
@@ -0,0 +1,60 @@
+// test/geo.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { distanceKm, eventCity, findPlace, validCoordinates } from "../src/geo.js";
+import { LocationError } from "../src/locations.js";
+import { event } from "./fixtures.js";
+
+describe("distanceKm", () => {
+  it("gives great-circle distances", () => {
+    const lisbon = findPlace("Lisbon");
+    const newYork = findPlace("NYC");
+    assert.equal(distanceKm(lisbon, lisbon), 0);
+    assert.ok(Math.abs(distanceKm(lisbon, findPlace("Porto")) - 274) < 5);
+    assert.ok(Math.abs(distanceKm(lisbon, newYork) - 5420) < 30);
+    assert.equal(distanceKm(lisbon, newYork), distanceKm(newYork, lisbon));
+  });
+
+  it("stays finite for antipodal points", () => {
+    assert.ok(Math.abs(distanceKm({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 180 }) - Math.PI * 6371) < 1);
+  });
+});
+
+describe("validCoordinates", () => {
+  it("accepts latitudes within ±90 and longitudes within ±180", () => {
+    assert.ok(validCoordinates(-90, 180));
+    assert.ok(!validCoordinates(90.1, 0));
+    assert.ok(!validCoordinates(0, -180.5));
+  });
+});
+
+describe("findPlace", () => {
+  it("finds gazetteer cities by name, alias or 'city, country'", () => {
+    assert.deepEqual(findPlace("Lisboa"), { name: "Lisbon", latitude: 38.72, longitude: -9.14 });
+    assert.equal(findPlace("New York City").name, "New York");
+    assert.equal(findPlace("Lisbon, Portugal").name, "Lisbon");
+    assert.equal(findPlace("London, UK").name, "London");
+  });
+
+  it("reads 'latitude, longitude' pairs", () => {
+    assert.deepEqual(findPlace(" 38.7, -9.1 "), { name: "38.7, -9.1", latitude: 38.7, longitude: -9.1 });
+  });
+
+  it("rejects coordinates out of range, unknown cities and a city in the wrong country", () => {
+    assert.throws(() => findPlace("95, 10"), (error: Error) => error instanceof LocationError && /Invalid coordinates "95, 10"/.test(error.message));
+    assert.throws(() => findPlace("Atlantis"), /Unknown place "Atlantis"/);
+    assert.throws(() => findPlace("Lisbon, Spain"), /Unknown place "Lisbon, Spain"/);
+  });
+});
+
+describe("eventCity", () => {
+  it("places events in a known city that agrees with their country", () => {
+    assert.equal(eventCity(event({ title: "A", city: "Lisboa", country: "PT" }))?.name, "Lisbon");
+    assert.equal(eventCity(event({ title: "B", city: "NYC", country: "" }))?.name, "New York");
+  });
+
+  it("leaves unknown cities and cities in another country unlocated", () => {
+    assert.equal(eventCity(event({ title: "C", city: "Atlantis", country: "Portugal" })), undefined);
+    assert.equal(eventCity(event({ title: "D", city: "London", country: "Canada" })), undefined);
+  });
+});
@@ -0,0 +1,118 @@
+// test/http.test.ts
+import assert from "node:assert/strict";
+import { describe, it, TestContext } from "node:test";
+import { CircuitBreaker, CircuitOpenError, fetchWithRetry, RetryPolicy, UpstreamError } from "../src/http.js";
+
+const policy: RetryPolicy = { timeoutMs: 1000, maxRetries: 2, baseDelayMs: 0, maxDelayMs: 50 };
+
+// Answers each request with the next of `responses` and counts the calls
+function stubFetch(t: TestContext, responses: Array<() => Response>) {
+  let calls = 0;
+  t.mock.method(globalThis, "fetch", async () => {
+    const respond = responses[Math.min(calls, responses.length - 1)]!;
+    calls++;
+    return respond();
+  });
+  return { get calls() { return calls; } };
+}
+
+const status = (code: number, headers: Record<string, string> = {}) => () => new Response(null, { status: code, headers });
+const ok = () => Response.json({ success: true });
+
+describe("fetchWithRetry", () => {
+  it("retries server errors and returns the first success", async t => {
+    const fetched = stubFetch(t, [status(503), status(502), ok]);
+    const response = await fetchWithRetry("http://api.test", {}, policy, new CircuitBreaker("test", 5, 1000));
+    assert.equal(response.status, 200);
+    assert.equal(fetched.calls, 3);
+  });
+
+  it("gives up after maxRetries and says how many attempts were made", async t => {
+    const fetched = stubFetch(t, [status(500)]);
+    await assert.rejects(
+      fetchWithRetry("http://api.test", {}, policy, new CircuitBreaker("test", 5, 1000)),
+      (error: UpstreamError) => error.status === 500 && /after 3 attempts/.test(error.message)
+    );
+    assert.equal(fetched.calls, 3);
+  });
+
+  it("does not retry client errors", async t => {
+    const fetched = stubFetch(t, [status(404), ok]);
+    await assert.rejects(fetchWithRetry("http://api.test", {}, policy, new CircuitBreaker("test", 5, 1000)), { status: 404, retryable: false });
+    assert.equal(fetched.calls, 1);
+  });
+
+  it("waits as long as Retry-After asks when that fits the policy", async t => {
+    const fetched = stubFetch(t, [status(429, { "retry-after": "0" }), ok]);
+    const response = await fetchWithRetry("http://api.test", {}, policy, new CircuitBreaker("test", 5, 1000));
+    assert.equal(response.status, 200);
+    assert.equal(fetched.calls, 2);
+  });
+
+  it("fails at once when Retry-After is longer than the maximum delay", async t => {
+    const fetched = stubFetch(t, [status(429, { "retry-after": "120" }), ok]);
+    await assert.rejects(
+      fetchWithRetry("http://api.test", {}, policy, new CircuitBreaker("test", 5, 1000)),
+      /HTTP 429.*upstream asked to retry after 120s/
+    );
+    assert.equal(fetched.calls, 1);
+  });
+
+  it("accepts Retry-After as an HTTP date", async t => {
+    t.mock.timers.enable({ apis: ["Date"], now: Date.parse("2026-10-19T12:00:00Z") });
+    const fetched = stubFetch(t, [status(503, { "retry-after": "Mon, 19 Oct 2026 12:01:00 GMT" }), ok]);
+    await assert.rejects(
+      fetchWithRetry("http://api.test", {}, policy, new CircuitBreaker("test", 5, 1000)),
+      /upstream asked to retry after 60s/
+    );
+    assert.equal(fetched.calls, 1);
+  });
+
+  it("counts a failed call once against the circuit breaker, however often it was retried", async t => {
+    stubFetch(t, [status(500)]);
+    const breaker = new CircuitBreaker("test", 2, 1000);
+    await assert.rejects(fetchWithRetry("http://api.test", {}, policy, breaker));
+    assert.deepEqual(breaker.status(), { state: "closed", consecutiveFailures: 1 });
+  });
+});
+
+describe("CircuitBreaker", () => {
+  it("opens after the failure threshold and rejects calls until the reset time", t => {
+    t.mock.timers.enable({ apis: ["Date"], now: 0 });
+    const breaker = new CircuitBreaker("directory", 2, 30_000);
+    breaker.recordFailure();
+    breaker.assertCanRequest();
+    breaker.recordFailure();
+    assert.equal(breaker.status().state, "open");
+
+    t.mock.timers.tick(10_000);
+    assert.throws(() => breaker.assertCanRequest(), (error: Error) =>
+      error instanceof CircuitOpenError && /directory API .*2 consecutive failures.*try again in 20s/.test(error.message));
+  });
+
+  it("lets a single trial request through once half-open", t => {
+    t.mock.timers.enable({ apis: ["Date"], now: 0 });
+    const breaker = new CircuitBreaker("test", 1, 1000);
+    breaker.recordFailure();
+    t.mock.timers.tick(1000);
+
+    breaker.assertCanRequest();
+    assert.equal(breaker.status().state, "half-open");
+    assert.throws(() => breaker.assertCanRequest(), CircuitOpenError);
+
+    breaker.recordSuccess();
+    assert.deepEqual(breaker.status(), { state: "closed", consecutiveFailures: 0 });
+    breaker.assertCanRequest();
+  });
+
+  it("reopens when the trial request fails", t => {
+    t.mock.timers.enable({ apis: ["Date"], now: 0 });
+    const breaker = new CircuitBreaker("test", 3, 1000);
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    t.mock.timers.tick(1000);
+    breaker.assertCanRequest();
+    breaker.recordFailure();
+    assert.equal(breaker.status().state, "open");
+    assert.throws(() => breaker.assertCanRequest(), /try again in 1s/);
+  });
+});
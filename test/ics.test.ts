@@ -0,0 +1,70 @@
+// test/ics.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { eventsToIcs, eventUid } from "../src/ics.js";
+import { event } from "./fixtures.js";
+
+const generatedAt = new Date("2026-10-19T12:00:00Z");
+const calendar = (...events: Parameters<typeof event>[0][]) => eventsToIcs(events.map(fields => event(fields)), { name: "Test", generatedAt });
+
+// Content lines with folding undone (RFC 5545 3.1)
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+const property = (ics: string, name: string) => unfold(ics).filter(line => line.startsWith(`${name}:`) || line.startsWith(`${name};`));
+
+describe("eventsToIcs", () => {
+  it("writes a VCALENDAR with CRLF line endings and one VEVENT per event, in start order", () => {
+    const ics = calendar(
+      { title: "Later", eventStartDate: "2026-12-01T09:00:00Z" },
+      { title: "Sooner", eventStartDate: "2026-11-01T09:00:00Z" }
+    );
+    assert.ok(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n"));
+    assert.ok(ics.endsWith("END:VCALENDAR\r\n"));
+    assert.doesNotMatch(ics.replace(/\r\n/g, ""), /\n/);
+    assert.deepEqual(property(ics, "SUMMARY"), ["SUMMARY:Sooner", "SUMMARY:Later"]);
+  });
+
+  it("escapes backslashes, semicolons, commas and newlines in text", () => {
+    const ics = calendar({ title: "Web3; DeFi, NFTs \\ more", description: "Line one\nLine two", location: "Hall A", city: "Lisbon", country: "Portugal" });
+    assert.deepEqual(property(ics, "SUMMARY"), ["SUMMARY:Web3\\; DeFi\\, NFTs \\\\ more"]);
+    assert.deepEqual(property(ics, "DESCRIPTION"), ["DESCRIPTION:Line one\\nLine two"]);
+    assert.deepEqual(property(ics, "LOCATION"), ["LOCATION:Hall A\\, Lisbon\\, Portugal"]);
+  });
+
+  it("folds lines longer than 75 octets without splitting multi-byte characters", () => {
+    const title = "Blockchain Summit ".repeat(4) + "Zürich 🚀 ".repeat(8).trim();
+    const ics = calendar({ title });
+    for (const line of ics.split("\r\n")) {
+      assert.ok(Buffer.byteLength(line) <= 75, line);
+      assert.doesNotMatch(line, /�/);
+    }
+    assert.deepEqual(property(ics, "SUMMARY"), [`SUMMARY:${title}`]);
+  });
+
+  it("writes all-day events with an exclusive DTEND on the day after the last day", () => {
+    const ics = calendar({ title: "Expo", eventStartDate: "2026-11-03T00:00:00Z", eventEndDate: "2026-11-05T00:00:00Z" });
+    assert.deepEqual(property(ics, "DTSTART"), ["DTSTART;VALUE=DATE:20261103"]);
+    assert.deepEqual(property(ics, "DTEND"), ["DTEND;VALUE=DATE:20261106"]);
+
+    const oneDay = calendar({ title: "Meetup", eventStartDate: "2026-12-31T00:00:00Z" });
+    assert.deepEqual(property(oneDay, "DTEND"), ["DTEND;VALUE=DATE:20270101"]);
+  });
+
+  it("writes timed events in UTC and omits DTEND when there is no later end", () => {
+    const ics = calendar({ title: "Talk", eventStartDate: "2026-11-03T14:30:00Z", eventEndDate: "2026-11-03T16:00:00Z" });
+    assert.deepEqual(property(ics, "DTSTART"), ["DTSTART:20261103T143000Z"]);
+    assert.deepEqual(property(ics, "DTEND"), ["DTEND:20261103T160000Z"]);
+    assert.deepEqual(property(calendar({ title: "Open", eventStartDate: "2026-11-03T14:30:00Z" }), "DTEND"), []);
+  });
+
+  it("keeps the UID stable and stamps with updatedAt when it is known", () => {
+    const ics = calendar({ title: "Expo", updatedAt: "2026-09-01T08:00:00Z" });
+    assert.deepEqual(property(ics, "UID"), [`UID:${eventUid(event({ title: "Expo" }))}`]);
+    assert.deepEqual(property(ics, "DTSTAMP"), ["DTSTAMP:20260901T080000Z"]);
+    assert.deepEqual(property(calendar({ title: "Expo" }), "DTSTAMP"), ["DTSTAMP:20261019T120000Z"]);
+  });
+
+  it("only links http and https websites", () => {
+    assert.deepEqual(property(calendar({ title: "A", website: "https://expo.example/2026" }), "URL"), ["URL:https://expo.example/2026"]);
+    assert.deepEqual(property(calendar({ title: "B", website: "javascript:alert(1)" }), "URL"), []);
+  });
+});
@@ -0,0 +1,93 @@
+// test/locations.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { findCountry, findRegion, locationMatcher, LocationError, normalizeLocation, placeMatcher } from "../src/locations.js";
+import { event } from "./fixtures.js";
+
+const at = (city: string, country: string) => event({ title: `${city}, ${country}`, city, country });
+const events = [
+  at("NYC", "USA"),
+  at("Los Angeles", "United States"),
+  at("Lisboa", "Portugal"),
+  at("Berlin", "DE"),
+  at("Dubai", "U.A.E."),
+  at("Mexico City", "Mexico"),
+  at("York", "England"),
+  at("Atlantis", "Nowhere")
+];
+const matching = (predicate: (e: typeof events[number]) => boolean) => events.filter(predicate).map(e => e.title);
+
+describe("findCountry", () => {
+  it("finds a country by ISO code, name or alias, ignoring case, dots, accents and a leading 'the'", () => {
+    for (const name of ["US", "usa", "U.S.A.", "United States", "the United States of America"]) {
+      assert.equal(findCountry(name)?.code, "US", name);
+    }
+    assert.equal(findCountry("uk")?.name, "United Kingdom");
+    assert.equal(findCountry("espana")?.code, "ES");
+    assert.equal(findCountry("Freedonia"), undefined);
+  });
+});
+
+describe("findRegion", () => {
+  it("knows continents, subregions and groupings by name or alias", () => {
+    assert.ok(findRegion("europe")?.countries.has("PT"));
+    assert.ok(findRegion("EU")?.countries.has("DE"));
+    assert.ok(!findRegion("EU")?.countries.has("CH"));
+    assert.ok(findRegion("LATAM")?.countries.has("MX"));
+    assert.ok(findRegion("Gulf States")?.countries.has("AE"));
+    assert.equal(findRegion("Narnia"), undefined);
+  });
+});
+
+describe("normalizeLocation", () => {
+  it("gives canonical city, country and continent names", () => {
+    assert.deepEqual(normalizeLocation("USA", "NYC"), { city: "New York", country: "United States", country_code: "US", continent: "North America" });
+    assert.deepEqual(normalizeLocation("", "Lisboa"), { city: "Lisbon", country: "Portugal", country_code: "PT", continent: "Europe" });
+  });
+
+  it("keeps unknown names as given and a city that contradicts the country as text", () => {
+    assert.deepEqual(normalizeLocation(" Nowhere ", " Atlantis "), { city: "Atlantis", country: "Nowhere", country_code: null, continent: null });
+    assert.equal(normalizeLocation("Canada", "London").city, "London");
+    assert.equal(normalizeLocation("Canada", "Lisboa").city, "Lisboa");
+    assert.deepEqual(normalizeLocation("", ""), { city: null, country: null, country_code: null, continent: null });
+  });
+});
+
+describe("locationMatcher", () => {
+  it("matches countries by any of their names", () => {
+    assert.deepEqual(matching(locationMatcher({ country: "United States of America" })), ["NYC, USA", "Los Angeles, United States"]);
+  });
+
+  it("matches regions, including the Caribbean and Central America as North America", () => {
+    assert.deepEqual(matching(locationMatcher({ region: "Europe" })), ["Lisboa, Portugal", "Berlin, DE", "York, England"]);
+    assert.deepEqual(matching(locationMatcher({ region: "North America" })), ["NYC, USA", "Los Angeles, United States", "Mexico City, Mexico"]);
+    assert.deepEqual(matching(locationMatcher({ region: "Middle East" })), ["Dubai, U.A.E."]);
+  });
+
+  it("matches known cities exactly and unknown ones as part of the name", () => {
+    assert.deepEqual(matching(locationMatcher({ city: "New York City" })), ["NYC, USA"]);
+    assert.deepEqual(matching(locationMatcher({ city: "york" })), ["NYC, USA", "York, England"]);
+    assert.deepEqual(matching(locationMatcher({ country: "nowhere", city: "atlan" })), ["Atlantis, Nowhere"]);
+  });
+
+  it("rejects unknown regions and lists the known ones", () => {
+    assert.throws(() => locationMatcher({ region: "Narnia" }), (error: Error) =>
+      error instanceof LocationError && /Unknown region "Narnia"\. Known regions: .*Europe.*Latin America/.test(error.message));
+  });
+});
+
+describe("placeMatcher", () => {
+  it("reads one place as a country, region or city", () => {
+    assert.deepEqual(matching(placeMatcher("Portugal")), ["Lisboa, Portugal"]);
+    assert.deepEqual(matching(placeMatcher("GCC")), ["Dubai, U.A.E."]);
+    assert.deepEqual(matching(placeMatcher("Lisbon")), ["Lisboa, Portugal"]);
+  });
+
+  it("prefers the city for short forms that are also country codes", () => {
+    assert.deepEqual(matching(placeMatcher("LA")), ["Los Angeles, United States"]);
+  });
+
+  it("falls back to matching part of the city or country name", () => {
+    assert.deepEqual(matching(placeMatcher("where")), ["Atlantis, Nowhere"]);
+  });
+});
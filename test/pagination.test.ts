@@ -0,0 +1,67 @@
+// test/pagination.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CursorError, MAX_PAGE_SIZE, Page, paginate, pageRequestFrom, QueryUriTemplate, resolvePageSize } from "../src/pagination.js";
+
+const items = Array.from({ length: 7 }, (_, i) => `item-${i}`);
+const id = (item: string) => item;
+
+describe("paginate", () => {
+  it("walks the whole list through next_cursor", () => {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: Page<string> = paginate(items, id, { pageSize: 3, ...(cursor && { cursor }) });
+      seen.push(...page.items);
+      cursor = page.next_cursor;
+    } while (cursor);
+    assert.deepEqual(seen, items);
+  });
+
+  it("keeps the page size of the cursor unless a new one is given", () => {
+    const first = paginate(items, id, { pageSize: 2 });
+    assert.equal(paginate(items, id, { cursor: first.next_cursor! }).page_size, 2);
+    assert.equal(paginate(items, id, { cursor: first.next_cursor!, pageSize: 4 }).items.length, 4);
+  });
+
+  it("ends with a null cursor", () => {
+    const page: Page<string> = paginate(items, id, { pageSize: 10 });
+    assert.equal(page.items.length, 7);
+    assert.equal(page.next_cursor, null);
+  });
+
+  it("rejects a cursor once the list changed", () => {
+    const { next_cursor } = paginate(items, id, { pageSize: 3 });
+    assert.throws(() => paginate([...items, "item-7"], id, { cursor: next_cursor! }), CursorError);
+    assert.throws(() => paginate([...items].reverse(), id, { cursor: next_cursor! }), CursorError);
+  });
+
+  it("rejects a malformed cursor", () => {
+    assert.throws(() => paginate(items, id, { cursor: "not-a-cursor" }), /Invalid cursor/);
+  });
+});
+
+describe("resolvePageSize", () => {
+  it("defaults and clamps", () => {
+    assert.equal(resolvePageSize(), 25);
+    assert.equal(resolvePageSize(0), 1);
+    assert.equal(resolvePageSize(1000), MAX_PAGE_SIZE);
+    assert.equal(resolvePageSize(2.7), 2);
+  });
+});
+
+describe("QueryUriTemplate", () => {
+  const template = new QueryUriTemplate("blockza://companies", ["cursor", "page_size"]);
+
+  it("matches the base URI with any subset of its parameters", () => {
+    assert.deepEqual(template.match("blockza://companies"), {});
+    assert.deepEqual(template.match("blockza://companies?page_size=10&cursor=abc"), { cursor: "abc", page_size: "10" });
+    assert.equal(template.match("blockza://events"), null);
+  });
+
+  it("round-trips a cursor through pageUri", () => {
+    const uri = template.pageUri("abc")!;
+    assert.deepEqual(pageRequestFrom(template.match(uri)!), { cursor: "abc" });
+    assert.equal(template.pageUri(null), null);
+  });
+});
@@ -0,0 +1,76 @@
+// test/resolver.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { resolveCompany, unresolvedMessage } from "../src/resolver.js";
+import { company } from "./fixtures.js";
+
+const companies = [
+  company({ name: "BitMart", url: "https://www.bitmart.com/en", socialLinks: { twitter: "https://twitter.com/BitMartExchange", linkedin: "https://linkedin.com/company/bitmart-exchange" } }),
+  company({ name: "Gynger", url: "gynger.io", socialLinks: { telegram: "t.me/gynger" } }),
+  company({ name: "Block Labs", slug: "blocklabs", url: "https://blocklabs.xyz" }),
+  company({ name: "Block Lab", url: "https://blocklab.dev" }),
+  company({ name: "Chain Studio", url: "https://studio.example", socialLinks: { twitter: "@studio" } }),
+  company({ name: "Chain Studios", url: "https://studios.example", socialLinks: { twitter: "@studio" } })
+];
+
+const resolve = (identifier: string) => resolveCompany(companies, identifier);
+
+describe("resolveCompany", () => {
+  it("matches an exact slug with full confidence", () => {
+    const resolution = resolve(" BitMart ");
+    assert.equal(resolution.status, "resolved");
+    assert.equal(resolution.match?.company.slug, "bitmart");
+    assert.deepEqual([resolution.match?.method, resolution.match?.confidence], ["slug", 1]);
+  });
+
+  it("matches a name regardless of case and accents", () => {
+    assert.equal(resolve("BLÖCK labs").match?.method, "name");
+    assert.equal(resolve("BLÖCK labs").match?.company.slug, "blocklabs");
+  });
+
+  it("matches a website by its domain, with or without scheme and www", () => {
+    for (const identifier of ["bitmart.com", "https://bitmart.com/about", "www.bitmart.com"]) {
+      const resolution = resolve(identifier);
+      assert.equal(resolution.match?.company.slug, "bitmart", identifier);
+      assert.equal(resolution.match?.method, "domain", identifier);
+    }
+    assert.equal(resolve("https://gynger.io").match?.company.slug, "gynger");
+  });
+
+  it("matches a social handle given as @handle, a bare handle or a profile URL", () => {
+    for (const identifier of ["@bitmartexchange", "https://x.com/BitMartExchange/", "linkedin.com/company/bitmart-exchange", "t.me/gynger"]) {
+      const resolution = resolve(identifier);
+      assert.equal(resolution.status, "resolved", identifier);
+      assert.equal(resolution.match?.method, "social", identifier);
+    }
+  });
+
+  it("reports several matches in one stage as ambiguous instead of picking one", () => {
+    const resolution = resolve("@studio");
+    assert.equal(resolution.status, "ambiguous");
+    assert.equal(resolution.match, null);
+    assert.deepEqual(resolution.candidates.map(c => c.company.name), ["Chain Studio", "Chain Studios"]);
+    assert.match(unresolvedMessage(resolution), /matches more than one company[\s\S]*1\. Chain Studio \(slug: chain-studio\) - matched by social/);
+  });
+
+  it("resolves a clear misspelling by fuzzy matching", () => {
+    const resolution = resolve("Bitmar");
+    assert.equal(resolution.status, "resolved");
+    assert.equal(resolution.match?.company.slug, "bitmart");
+    assert.equal(resolution.match?.method, "fuzzy");
+    assert.ok(resolution.match!.confidence < 0.8);
+  });
+
+  it("leaves close fuzzy matches ambiguous, best first", () => {
+    const resolution = resolve("Blok Lab");
+    assert.equal(resolution.status, "ambiguous");
+    assert.equal(resolution.candidates[0]?.company.name, "Block Lab");
+    assert.ok(resolution.candidates.some(c => c.company.name === "Block Labs"));
+  });
+
+  it("reports identifiers that match nothing as not found", () => {
+    const resolution = resolve("Uniswap");
+    assert.deepEqual([resolution.status, resolution.candidates], ["not_found", []]);
+    assert.equal(unresolvedMessage(resolution), "Company not found: Uniswap");
+  });
+});
@@ -0,0 +1,102 @@
+// test/scoring.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CompanyWeights, DEFAULT_SCORING, rankCompanies, rankPodcasts, resolveWeights, ScoringError, scoringSchema } from "../src/scoring.js";
+import { company, podcast } from "./fixtures.js";
+
+const only = (factor: keyof CompanyWeights): CompanyWeights =>
+  ({ likes: 0, views: 0, verification: 0, promotion: 0, team_size: 0, founder_followers: 0, response_rate: 0, [factor]: 1 });
+
+const names = (ranked: Array<{ item: { name: string } }>) => ranked.map(entry => entry.item.name);
+
+describe("rankCompanies", () => {
+  it("normalizes each factor from 0 to 1 within a category, on a log scale for counts", () => {
+    const ranked = rankCompanies([
+      company({ name: "Small", category: "DeFi", likes: 0 }),
+      company({ name: "Viral", category: "DeFi", likes: 9999 }),
+      company({ name: "Medium", category: "DeFi", likes: 99 })
+    ], only("likes"));
+    assert.deepEqual(names(ranked), ["Viral", "Medium", "Small"]);
+    assert.deepEqual(ranked.map(entry => entry.score), [100, 50, 0]);
+    assert.equal(ranked[1]?.scoring.factors.find(factor => factor.factor === "likes")?.normalized, 0.5);
+  });
+
+  it("compares entities only with others in the same category", () => {
+    const ranked = rankCompanies([
+      company({ name: "Big exchange", category: "Exchanges", likes: 5000 }),
+      company({ name: "Small exchange", category: "Exchanges", likes: 10 }),
+      company({ name: "Top wallet", category: "wallets", likes: 20 }),
+      company({ name: "Other wallet", category: "Wallets", likes: 5 })
+    ], only("likes"));
+    const byName = new Map(ranked.map(entry => [entry.item.name, entry]));
+    assert.equal(byName.get("Top wallet")?.score, 100);
+    assert.equal(byName.get("Top wallet")?.scoring.peers, 2);
+    assert.equal(byName.get("Small exchange")?.score, 0);
+  });
+
+  it("counts a factor fully when a category has no spread, unless every value is 0", () => {
+    const same = rankCompanies([company({ name: "A", likes: 7 }), company({ name: "B", likes: 7 })], only("likes"));
+    assert.deepEqual(same.map(entry => entry.score), [100, 100]);
+    const none = rankCompanies([company({ name: "A" }), company({ name: "B" })], only("likes"));
+    assert.deepEqual(none.map(entry => entry.score), [0, 0]);
+  });
+
+  it("makes the factor points add up to the score, and explains them", () => {
+    const [entry] = rankCompanies([
+      company({ name: "A", category: "AI", likes: 50, views: 10, verificationStatus: "verified" }),
+      company({ name: "B", category: "AI", likes: 5, views: 1000 })
+    ], DEFAULT_SCORING.companies);
+    const points = entry!.scoring.factors.reduce((sum, factor) => sum + factor.points, 0);
+    assert.ok(Math.abs(points - entry!.score) < 0.1);
+    assert.match(entry!.scoring.explanation, /^\d+(\.\d)?\/100, weighted mean of the factors normalized among the 2 entries in "AI": /);
+  });
+
+  it("sorts by a factor's raw value with the score breaking ties", () => {
+    const ranked = rankCompanies([
+      company({ name: "Unverified", likes: 900 }),
+      company({ name: "Verified, few likes", likes: 1, verificationStatus: "verified" }),
+      company({ name: "Verified, many likes", likes: 500, verificationStatus: "verified" })
+    ], DEFAULT_SCORING.companies, "verification");
+    assert.deepEqual(names(ranked), ["Verified, many likes", "Verified, few likes", "Unverified"]);
+  });
+
+  it("keeps the input order for equal scores", () => {
+    const ranked = rankCompanies([company({ name: "First", likes: 3 }), company({ name: "Second", likes: 3 })], only("likes"));
+    assert.deepEqual(names(ranked), ["First", "Second"]);
+  });
+});
+
+describe("rankPodcasts", () => {
+  const now = Date.parse("2026-10-19T00:00:00Z");
+  const weights = { likes: 0, views: 0, recency: 1 };
+
+  it("ranks recent episodes higher and unknown dates last", () => {
+    const ranked = rankPodcasts([
+      podcast({ title: "Old", createdAt: "2026-01-01T00:00:00Z" }),
+      podcast({ title: "Undated" }),
+      podcast({ title: "New", createdAt: "2026-10-09T00:00:00Z" })
+    ], weights, "recency", now);
+    assert.deepEqual(ranked.map(entry => entry.item.title), ["New", "Old", "Undated"]);
+    assert.deepEqual(ranked.map(entry => entry.score), [100, 0, 0]);
+    assert.equal(ranked[0]?.scoring.factors[2]?.value, 10);
+  });
+});
+
+describe("resolveWeights", () => {
+  it("applies per-call overrides over the configured weights", () => {
+    assert.deepEqual(resolveWeights(DEFAULT_SCORING.podcasts, { views: 0, recency: undefined }), { likes: 3, views: 0, recency: 1 });
+  });
+
+  it("rejects unknown factors, negative weights and all-zero weights", () => {
+    assert.throws(() => resolveWeights(DEFAULT_SCORING.podcasts, { downloads: 1 } as never), (error: Error) =>
+      error instanceof ScoringError && error.message === 'Unknown factor "downloads". Known factors: likes, views, recency');
+    assert.throws(() => resolveWeights(DEFAULT_SCORING.podcasts, { likes: -1 }), /Weight for likes must be a number of at least 0, got -1/);
+    assert.throws(() => resolveWeights(DEFAULT_SCORING.podcasts, { likes: 0, views: 0, recency: 0 }), /At least one weight must be greater than 0/);
+  });
+
+  it("needs a positive weight in each configured section", () => {
+    const result = scoringSchema.safeParse({ ...DEFAULT_SCORING, podcasts: { likes: 0, views: 0, recency: 0 } });
+    assert.equal(result.success, false);
+    assert.deepEqual(result.error?.issues.map(issue => issue.path), [["podcasts"]]);
+  });
+});
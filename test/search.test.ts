@@ -0,0 +1,70 @@
+// test/search.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { companySearchFields, rankItems, searchDirectory, stem, tokenize, withSearchHits } from "../src/search.js";
+import { company, directoryApi, stubApi } from "./fixtures.js";
+
+const bitmart = company({ name: "BitMart", category: "Crypto Exchanges", shortDescription: "Global crypto exchange" });
+const gynger = company({ name: "Gynger", category: "Fintech", shortDescription: "Payments for software" });
+const zkLabs = company({ name: "ZK Labs", category: "Infrastructure", shortDescription: "Zero-knowledge proofs" });
+const slugOf = (item: { slug: string }) => item.slug;
+
+describe("withSearchHits", () => {
+  it("appends hits the listing lacks, after the listing and in search order", () => {
+    const merged = withSearchHits([bitmart], [zkLabs, bitmart, gynger], slugOf);
+    assert.deepEqual(merged.map(slugOf), ["bitmart", "zk-labs", "gynger"]);
+  });
+
+  it("keeps each item once", () => {
+    const merged = withSearchHits([bitmart, gynger], [gynger, bitmart], slugOf);
+    assert.deepEqual(merged.map(slugOf), ["bitmart", "gynger"]);
+  });
+
+  it("returns the listed array itself when nothing is missing, so its index is reused", () => {
+    const listed = [bitmart, gynger];
+    assert.equal(withSearchHits(listed, [gynger], slugOf), listed);
+    assert.equal(withSearchHits(listed, [], slugOf), listed);
+  });
+});
+
+describe("rankItems", () => {
+  it("ranks a hit the listing missed once it is merged in", () => {
+    const listed = [bitmart, gynger];
+    assert.deepEqual(rankItems(listed, companySearchFields, "zk labs"), []);
+
+    const ranked = rankItems(withSearchHits(listed, [zkLabs], slugOf), companySearchFields, "zk labs");
+    assert.equal(ranked[0]?.item, zkLabs);
+  });
+
+  it("tolerates typos and ranks name matches first", () => {
+    const ranked = rankItems([gynger, bitmart], companySearchFields, "bitmrt");
+    assert.equal(ranked[0]?.item, bitmart);
+    assert.ok(ranked[0]?.match?.highlights.length);
+  });
+
+  it("keeps the original order without a query", () => {
+    assert.deepEqual(rankItems([gynger, bitmart], companySearchFields, "  ").map(hit => hit.item), [gynger, bitmart]);
+  });
+});
+
+describe("tokenize", () => {
+  it("lowercases, strips accents and stems", () => {
+    assert.deepEqual(tokenize("Zürich Exchanges"), tokenize("zurich exchange"));
+    assert.equal(stem("proofs"), "proof");
+  });
+
+  it("drops stop words", () => {
+    assert.deepEqual(tokenize("the CTO of BitMart"), ["cto", "bitmart"]);
+  });
+});
+
+describe("searchDirectory", () => {
+  it("finds companies beyond the listing cap through the API's own search", async t => {
+    const companies = [bitmart, gynger, ...Array.from({ length: 5 }, (_, i) => company({ name: `Filler ${i}` })), zkLabs];
+    const { client, requests } = stubApi(t, directoryApi(companies), ["--default-limit", "2"]);
+
+    const result = await searchDirectory(client, "zk labs", { types: ["company"] });
+    assert.equal(result.results[0]?.id, "zk-labs");
+    assert.ok(requests.some(url => url.searchParams.get("search") === "zk labs"));
+  });
+});
@@ -0,0 +1,76 @@
+// test/team.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { filterTeamMembers, sortTeamMembers, TeamFilterError, TeamMemberFilter } from "../src/team.js";
+import { company } from "./fixtures.js";
+
+const companies = [
+  company({
+    name: "BitMart",
+    teamMembers: [
+      { name: "Ada", title: "Chief Technology Officer", price: 250, bookingMethods: ["Zoom"], status: "Active", followers: 900, responseRate: 70 },
+      { name: "Ben", title: "Head of BD", price: 0, bookingMethods: ["Telegram"], status: "active", followers: 50, responseRate: 95 },
+      { name: "Cy", title: "VP Engineering", price: 120, bookingMethods: ["Google Meet"], status: "away", followers: 300, responseRate: 95 }
+    ]
+  }),
+  company({
+    name: "Gynger",
+    teamMembers: [
+      { name: "Dee", title: "CTO & Co-Founder", price: 180, bookingMethods: ["zoom", "telegram"], status: "active", followers: 1200, responseRate: 80 },
+      { name: "Eve", title: "Business Development Manager", price: 60, bookingMethods: [], status: "active", followers: 10, responseRate: 40 }
+    ]
+  })
+];
+
+const members = (filter: TeamMemberFilter) => filterTeamMembers(companies, filter).map(({ member }) => member.name);
+
+describe("filterTeamMembers", () => {
+  it("expands role abbreviations in both the query and the title", () => {
+    assert.deepEqual(members({ role: "CTO" }), ["Ada", "Dee"]);
+    assert.deepEqual(members({ role: "chief technology officer" }), ["Ada", "Dee"]);
+    assert.deepEqual(members({ role: "head of business development" }), ["Ben"]);
+    assert.deepEqual(members({ role: "bizdev" }), ["Ben", "Eve"]);
+  });
+
+  it("expands plural abbreviations", () => {
+    assert.deepEqual(members({ role: "CTOs" }), ["Ada", "Dee"]);
+    assert.deepEqual(members({ role: "VPs" }), ["Cy"]);
+  });
+
+  it("needs every word of one alternative", () => {
+    assert.deepEqual(members({ role: "cofounder cto" }), ["Dee"]);
+    assert.deepEqual(members({ role: "VP engineering, head of BD" }), ["Ben", "Cy"]);
+    assert.deepEqual(members({ role: "CFO or CMO" }), []);
+  });
+
+  it("drops unpriced members once a price bound is set", () => {
+    assert.deepEqual(members({ max_price: 200 }), ["Cy", "Dee", "Eve"]);
+    assert.deepEqual(members({ min_price: 100, max_price: 200 }), ["Cy", "Dee"]);
+    assert.throws(() => members({ min_price: 300, max_price: 200 }), TeamFilterError);
+  });
+
+  it("filters by booking method, response rate and status regardless of case", () => {
+    assert.deepEqual(members({ booking_method: "ZOOM" }), ["Ada", "Dee"]);
+    assert.deepEqual(members({ booking_method: "meet" }), ["Cy"]);
+    assert.deepEqual(members({ min_response_rate: 80 }), ["Ben", "Cy", "Dee"]);
+    assert.deepEqual(members({ status: "active", role: "cto" }), ["Ada", "Dee"]);
+  });
+});
+
+describe("sortTeamMembers", () => {
+  const all = filterTeamMembers(companies, {});
+  const sorted = (sortBy?: Parameters<typeof sortTeamMembers>[1]) => sortTeamMembers(all, sortBy).map(({ member }) => member.name);
+
+  it("puts the best response rate first, breaking ties by name", () => {
+    assert.deepEqual(sorted(), ["Ben", "Cy", "Dee", "Ada", "Eve"]);
+  });
+
+  it("sorts by lowest price with unpriced members last", () => {
+    assert.deepEqual(sorted("price"), ["Eve", "Cy", "Dee", "Ada", "Ben"]);
+  });
+
+  it("sorts by followers and by name", () => {
+    assert.deepEqual(sorted("followers"), ["Dee", "Ada", "Cy", "Ben", "Eve"]);
+    assert.deepEqual(sorted("name"), ["Ada", "Ben", "Cy", "Dee", "Eve"]);
+  });
+});
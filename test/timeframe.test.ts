@@ -0,0 +1,96 @@
+// test/timeframe.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { describeTimeframe, parseTimeframe, TimeframeError } from "../src/timeframe.js";
+
+// Monday 2026-10-19, mid-afternoon UTC
+const monday = new Date("2026-10-19T15:30:00Z");
+const saturday = new Date("2026-10-24T09:00:00Z");
+const sunday = new Date("2026-10-25T22:00:00Z");
+
+// The range as dates, e.g. "2026-10-24..2026-10-25"
+function range(phrase: string, now = monday): string {
+  const timeframe = parseTimeframe(phrase, now);
+  return `${timeframe.start.slice(0, 10)}..${timeframe.end.slice(0, 10)}`;
+}
+
+describe("parseTimeframe", () => {
+  it("resolves next weekend on a weekday to the coming one", () => {
+    assert.equal(range("next weekend"), "2026-10-24..2026-10-25");
+    assert.equal(range("next weekend", new Date("2026-10-23T12:00:00Z")), "2026-10-24..2026-10-25");
+    assert.equal(range("this weekend"), "2026-10-24..2026-10-25");
+    assert.equal(range("weekend"), "2026-10-24..2026-10-25");
+  });
+
+  it("moves next weekend a week ahead on Saturday and Sunday", () => {
+    assert.equal(range("next weekend", saturday), "2026-10-31..2026-11-01");
+    assert.equal(range("next weekend", sunday), "2026-10-31..2026-11-01");
+    assert.equal(range("this weekend", sunday), "2026-10-24..2026-10-25");
+  });
+
+  it("resolves last weekend to the one before", () => {
+    assert.equal(range("last weekend"), "2026-10-17..2026-10-18");
+    assert.equal(range("last weekend", saturday), "2026-10-17..2026-10-18");
+  });
+
+  it("covers whole days, ending at the last millisecond", () => {
+    const timeframe = parseTimeframe("next weekend", monday);
+    assert.equal(timeframe.start, "2026-10-24T00:00:00.000Z");
+    assert.equal(timeframe.end, "2026-10-25T23:59:59.999Z");
+    assert.equal(describeTimeframe(timeframe), `"next weekend" (2026-10-24 to 2026-10-25)`);
+  });
+
+  it("resolves weeks, months, quarters and years around today", () => {
+    assert.equal(range("this week"), "2026-10-19..2026-10-25");
+    assert.equal(range("next week"), "2026-10-26..2026-11-01");
+    assert.equal(range("next month"), "2026-11-01..2026-11-30");
+    assert.equal(range("last quarter"), "2026-07-01..2026-09-30");
+    assert.equal(range("next year"), "2027-01-01..2027-12-31");
+    assert.equal(range("today"), "2026-10-19..2026-10-19");
+    assert.equal(range("tomorrow"), "2026-10-20..2026-10-20");
+  });
+
+  it("counts spans from today", () => {
+    assert.equal(range("in the next 6 weeks"), "2026-10-19..2026-11-29");
+    assert.equal(range("within two weeks"), "2026-10-19..2026-11-01");
+    assert.equal(range("past 30 days"), "2026-09-20..2026-10-19");
+  });
+
+  it("takes the next quarter, month or day to come round when no year is given", () => {
+    assert.equal(range("Q1"), "2027-01-01..2027-03-31");
+    assert.equal(range("Q4"), "2026-10-01..2026-12-31");
+    assert.equal(range("March"), "2027-03-01..2027-03-31");
+    assert.equal(range("October"), "2026-10-01..2026-10-31");
+    assert.equal(range("15 March 2027"), "2027-03-15..2027-03-15");
+  });
+
+  it("parses explicit ranges", () => {
+    assert.equal(range("2026-11-01 to 2026-11-15"), "2026-11-01..2026-11-15");
+    assert.equal(range("between March and May 2027"), "2027-03-01..2027-05-31");
+    assert.equal(range("Q1 2027 - Q2 2027"), "2027-01-01..2027-06-30");
+  });
+
+  it("rejects ranges that end before they start", () => {
+    assert.throws(() => parseTimeframe("2026-11-15 to 2026-11-01", monday), /ends before it starts/);
+  });
+
+  it("rejects impossible ISO dates", () => {
+    for (const phrase of ["2026-13", "2026-00", "2026-02-30", "2026-04-31"]) {
+      assert.throws(() => parseTimeframe(phrase, monday), TimeframeError, phrase);
+    }
+    assert.equal(range("2028-02-29"), "2028-02-29..2028-02-29");
+  });
+
+  it("explains phrases naming a single day in the future", () => {
+    assert.throws(() => parseTimeframe("in 2 weeks", monday), /single day.*"in the next 2 weeks"/);
+  });
+
+  it("explains that weekday names are not supported", () => {
+    assert.throws(() => parseTimeframe("Friday", monday), /weekday names such as "friday"/);
+    assert.throws(() => parseTimeframe("next friday", monday), /weekday names/);
+  });
+
+  it("rejects phrases it cannot read", () => {
+    assert.throws(() => parseTimeframe("soonish", monday), /Could not understand timeframe "soonish"/);
+  });
+});